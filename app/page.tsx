@@ -1,14 +1,37 @@
 "use client";
 
-import React, { useState, useRef } from "react";
+import React, { useEffect, useState, useRef } from "react";
 import { Navbar } from "../components/Navbar";
 import { Hero } from "../components/Hero";
 import { ScoreDisplay } from "../components/ScoreDisplay";
 import { DemoMap } from "../components/DemoMap";
+import { BatchAnalysis } from "../components/BatchAnalysis";
+import { CacheSettings } from "../components/CacheSettings";
+import { CompareView, MAX_COMPARE_LOCALITIES, getCompareKey } from "../components/CompareView";
+import { ScoreTimeline } from "../components/ScoreTimeline";
+import { ShareLinksPanel } from "../components/ShareLinksPanel";
+import { ProfileSelect } from "../components/ProfileSelect";
+import { ExportMenu } from "../components/ExportMenu";
+import { ReportLinkMenu } from "../components/ReportLinkMenu";
 import { HowItWorks, UseCases } from "../components/Features";
 import { Footer } from "../components/Footer";
-import { LocationAnalysis } from "../types";
-import { analyzeLocation, getCityMatches, validateLocationInput } from "../services/locationService";
+import { AnalysisProgress, CachedAnalysisEntry, LocationAnalysis } from "../types";
+import {
+  analyzeLocation,
+  getCityMatches,
+  getReport,
+  isAbortError,
+  refreshCachedAnalysis,
+  validateLocationInput,
+} from "../services/locationService";
+import { DEFAULT_PROFILE_ID } from "../shared/scoring";
+import { downloadAnalysisPdf } from "../services/pdfReport";
+import {
+  ReportRoute,
+  getCurrentReportRoute,
+  getLocalityReportPath,
+  showReportPath,
+} from "../services/permalinks";
 
 export default function Home() {
   const [loading, setLoading] = useState(false);
@@ -16,19 +39,40 @@ export default function Home() {
   const [ambiguousCities, setAmbiguousCities] = useState<string[] | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [lastQuery, setLastQuery] = useState<{ city: string; locality: string } | null>(null);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  const [isRerunning, setIsRerunning] = useState(false);
+  const [profileId, setProfileId] = useState(DEFAULT_PROFILE_ID);
+  const [compareList, setCompareList] = useState<LocationAnalysis[]>([]);
+  const [selectedLandmark, setSelectedLandmark] = useState<number | null>(null);
   const resultsRef = useRef<HTMLDivElement>(null);
+  const requestRef = useRef<AbortController | null>(null);
 
-  const handleAnalyze = async (city: string, locality: string) => {
+  /** Aborts the request still in flight, so a superseded search never overwrites a newer one. */
+  const startRequest = () => {
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+    // A superseded rerun can no longer clear its own flag.
+    setIsRerunning(false);
+    return controller;
+  };
+
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  const handleAnalyze = async (city: string, locality: string, profile = profileId) => {
+    const controller = startRequest();
     setLoading(true);
     setAmbiguousCities(null);
     setAnalysis(null);
+    setSelectedLandmark(null);
     setErrorMessage(null);
     setLastQuery({ city, locality });
+    setProgress(null);
 
     try {
       const [validationResult, matchesResult] = await Promise.allSettled([
         validateLocationInput(city, locality),
-        getCityMatches(city, locality),
+        getCityMatches(city, locality, { onProgress: setProgress, signal: controller.signal }),
       ]);
 
       if (validationResult.status === "rejected") throw validationResult.reason;
@@ -49,16 +93,25 @@ export default function Home() {
         return;
       }
 
-      const result = await analyzeLocation(city, locality);
+      const result = await analyzeLocation(city, locality, {
+        onProgress: setProgress,
+        profile,
+        signal: controller.signal,
+      });
       setAnalysis(result);
+      showReportPath(getLocalityReportPath(city, locality, profile));
       setTimeout(() => {
         resultsRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
       }, 100);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error("Failed to analyze location", error);
       setErrorMessage(error instanceof Error ? error.message : "Unable to process input right now. Try again.");
     } finally {
-      setLoading(false);
+      if (requestRef.current === controller) {
+        setLoading(false);
+        setProgress(null);
+      }
     }
   };
 
@@ -66,6 +119,149 @@ export default function Home() {
     if (lastQuery) handleAnalyze(selectedCity, lastQuery.locality);
   };
 
+  const handleRerun = async () => {
+    if (!lastQuery) return;
+    const controller = startRequest();
+    setIsRerunning(true);
+    setErrorMessage(null);
+
+    try {
+      const result = await analyzeLocation(lastQuery.city, lastQuery.locality, {
+        refresh: true,
+        profile: profileId,
+        signal: controller.signal,
+      });
+      setAnalysis(result);
+      showReportPath(getLocalityReportPath(lastQuery.city, lastQuery.locality, profileId));
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error("Failed to re-run analysis", error);
+      setErrorMessage(error instanceof Error ? error.message : "Unable to process input right now. Try again.");
+    } finally {
+      if (requestRef.current === controller) setIsRerunning(false);
+    }
+  };
+
+  const handleCachedRerun = async (entry: CachedAnalysisEntry) => {
+    const controller = startRequest();
+    setLoading(true);
+    setAmbiguousCities(null);
+    setSelectedLandmark(null);
+    setErrorMessage(null);
+    setLastQuery({ city: entry.city, locality: entry.locality });
+    setProfileId(entry.profile);
+    setProgress(null);
+
+    try {
+      const result = await refreshCachedAnalysis(entry.key, { onProgress: setProgress, signal: controller.signal });
+      setAnalysis(result);
+      showReportPath(getLocalityReportPath(entry.city, entry.locality, entry.profile));
+      setTimeout(() => {
+        resultsRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
+      }, 100);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error("Failed to re-run cached analysis", error);
+      setErrorMessage(error instanceof Error ? error.message : "Unable to process input right now. Try again.");
+    } finally {
+      if (requestRef.current === controller) {
+        setLoading(false);
+        setProgress(null);
+      }
+    }
+  };
+
+  const handleOpenReport = async (reportId: string, profile = profileId) => {
+    const controller = startRequest();
+    setLoading(true);
+    setAmbiguousCities(null);
+    setAnalysis(null);
+    setSelectedLandmark(null);
+    setErrorMessage(null);
+    setProgress(null);
+
+    try {
+      const result = await getReport(reportId, profile, controller.signal);
+      setLastQuery({ city: result.cityName, locality: result.localityName });
+      setAnalysis(result);
+      setTimeout(() => {
+        resultsRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
+      }, 100);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error("Failed to open saved report", error);
+      setErrorMessage(error instanceof Error ? error.message : "Unable to load this report. Try again.");
+    } finally {
+      if (requestRef.current === controller) {
+        setLoading(false);
+        setProgress(null);
+      }
+    }
+  };
+
+  const openRoute = (route: ReportRoute | null) => {
+    if (!route) {
+      requestRef.current?.abort();
+      setLoading(false);
+      setAnalysis(null);
+      setAmbiguousCities(null);
+      setErrorMessage(null);
+      setLastQuery(null);
+      return;
+    }
+
+    setProfileId(route.profile);
+    if (route.kind === "report") {
+      handleOpenReport(route.reportId, route.profile);
+    } else {
+      handleAnalyze(route.city, route.locality, route.profile);
+    }
+  };
+
+  // Opens permalinks on a cold load and follows back/forward navigation between reports.
+  useEffect(() => {
+    const route = getCurrentReportRoute();
+    if (route) openRoute(route);
+
+    const handlePopState = () => openRoute(getCurrentReportRoute());
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, []);
+
+  const handleProfileChange = async (nextProfileId: string) => {
+    setProfileId(nextProfileId);
+    if (!lastQuery || !analysis) return;
+    const controller = startRequest();
+
+    try {
+      const result = await analyzeLocation(lastQuery.city, lastQuery.locality, {
+        profile: nextProfileId,
+        signal: controller.signal,
+      });
+      setAnalysis(result);
+      showReportPath(getLocalityReportPath(lastQuery.city, lastQuery.locality, nextProfileId), { replace: true });
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error("Failed to apply scoring profile", error);
+      setErrorMessage(error instanceof Error ? error.message : "Unable to process input right now. Try again.");
+    }
+  };
+
+  const isInCompare = (report: LocationAnalysis) =>
+    compareList.some((item) => getCompareKey(item) === getCompareKey(report));
+
+  const addToCompare = (report: LocationAnalysis) => {
+    setCompareList((prev) => {
+      if (prev.some((item) => getCompareKey(item) === getCompareKey(report))) return prev;
+      if (prev.length >= MAX_COMPARE_LOCALITIES) return prev;
+      return [...prev, report];
+    });
+  };
+
+  const removeFromCompare = (index: number) => {
+    setCompareList((prev) => prev.filter((_, i) => i !== index));
+  };
+
   const getLocalitySummary = (report: LocationAnalysis) => {
     const localityLabel = `${report.cityName} ${report.localityName}`.replace(/\s+/g, " ").trim();
     const focusText = report.focus?.toLowerCase() || "a resilient mixed-use micro-market";
@@ -96,7 +292,7 @@ export default function Home() {
       <Navbar />
 
       <main className="max-w-7xl mx-auto">
-        <Hero onAnalyze={handleAnalyze} isLoading={loading} />
+        <Hero onAnalyze={handleAnalyze} isLoading={loading} progress={progress} />
         {errorMessage && (
           <div className="max-w-4xl mx-auto px-4 pt-4">
             <div className="rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm font-semibold text-red-700">
@@ -135,18 +331,61 @@ export default function Home() {
 
         {analysis && (
           <div ref={resultsRef} className="px-4 py-20 animate-in fade-in slide-in-from-bottom-8 duration-700">
-            <div className="mb-10">
-              <h2 className="text-3xl font-bold text-slate-900 mb-2">
-                LOCATE Score for {analysis.localityName}, <span className="text-blue-600">{analysis.cityName}</span>
-              </h2>
-              <p className="text-slate-500 italic max-w-3xl whitespace-pre-line">{getLocalitySummary(analysis)}</p>
+            <div className="mb-10 flex flex-col md:flex-row md:items-end justify-between gap-6">
+              <div>
+                <h2 className="text-3xl font-bold text-slate-900 mb-2">
+                  LOCATE Score for {analysis.localityName}, <span className="text-blue-600">{analysis.cityName}</span>
+                </h2>
+                <p className="text-slate-500 italic max-w-3xl whitespace-pre-line">{getLocalitySummary(analysis)}</p>
+              </div>
+              <div className="flex flex-wrap items-center gap-3 shrink-0">
+                <ProfileSelect value={profileId} onChange={handleProfileChange} disabled={isRerunning} />
+                <button
+                  onClick={() => downloadAnalysisPdf(analysis)}
+                  className="bg-white border border-slate-200 hover:border-blue-300 hover:bg-blue-50 text-slate-700 font-bold px-5 py-2.5 rounded-xl shadow-sm transition-all"
+                >
+                  Export PDF
+                </button>
+                <ExportMenu report={analysis} />
+                {lastQuery && (
+                  <ReportLinkMenu report={analysis} city={lastQuery.city} locality={lastQuery.locality} profileId={profileId} />
+                )}
+                <button
+                  onClick={() => addToCompare(analysis)}
+                  disabled={isInCompare(analysis) || compareList.length >= MAX_COMPARE_LOCALITIES}
+                  className="bg-white border border-slate-200 hover:border-blue-300 hover:bg-blue-50 text-slate-700 font-bold px-5 py-2.5 rounded-xl shadow-sm transition-all disabled:opacity-50"
+                >
+                  {isInCompare(analysis) ? "In Compare" : "Add to Compare"}
+                </button>
+              </div>
             </div>
 
-            <ScoreDisplay data={analysis} />
-            <DemoMap city={analysis.cityName} sector={analysis.localityName} />
+            <ScoreDisplay data={analysis} selectedLandmark={selectedLandmark} onSelectLandmark={setSelectedLandmark} />
+            <DemoMap
+              city={analysis.cityName}
+              sector={analysis.localityName}
+              geo={analysis.geo}
+              landmarks={analysis.nearbyLandmarks}
+              selectedLandmark={selectedLandmark}
+              onSelectLandmark={setSelectedLandmark}
+            />
+            {lastQuery && (
+              <ScoreTimeline
+                city={lastQuery.city}
+                locality={lastQuery.locality}
+                current={analysis}
+                onRerun={handleRerun}
+                isRerunning={isRerunning}
+              />
+            )}
+            {analysis.reportId && <ShareLinksPanel reportId={analysis.reportId} profileId={profileId} />}
           </div>
         )}
 
+        <CompareView reports={compareList} profileId={profileId} onRemove={removeFromCompare} onClear={() => setCompareList([])} />
+        <BatchAnalysis profileId={profileId} onSelect={handleAnalyze} />
+        <CacheSettings onRerun={handleCachedRerun} />
+
         <HowItWorks />
         <UseCases />
       </main>
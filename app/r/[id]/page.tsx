@@ -0,0 +1,4 @@
+import Home from "../../page";
+
+/** `/r/<reportId>`: the home page reads the route from the URL and opens that saved report. */
+export default Home;
@@ -0,0 +1,4 @@
+import Home from "../../../page";
+
+/** `/report/<city>/<locality>`: the home page reads the route from the URL and opens the latest report. */
+export default Home;
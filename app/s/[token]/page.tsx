@@ -0,0 +1,11 @@
+"use client";
+
+import React from "react";
+import { useParams } from "next/navigation";
+import { SharedReportView } from "../../../components/SharedReportView";
+
+/** `/s/<token>`: read-only share page, without the search or analysis tools. */
+export default function SharedReportPage() {
+  const { token } = useParams<{ token: string }>();
+  return <SharedReportView token={decodeURIComponent(token)} />;
+}
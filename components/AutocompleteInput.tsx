@@ -0,0 +1,104 @@
+import React, { useId, useState } from "react";
+
+export interface AutocompleteOption {
+  value: string;
+  /** Secondary text, e.g. the state for a city. */
+  hint?: string;
+  /** Alternate name the typed text matched, shown as "also <name>". */
+  matchedAltName?: string;
+}
+
+interface AutocompleteInputProps {
+  label: string;
+  placeholder: string;
+  value: string;
+  onChange: (value: string) => void;
+  options: AutocompleteOption[];
+  required?: boolean;
+}
+
+export const AutocompleteInput: React.FC<AutocompleteInputProps> = ({ label, placeholder, value, onChange, options, required }) => {
+  const listId = useId();
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const visible = isOpen && options.length > 0 && !(options.length === 1 && options[0].value === value);
+
+  const select = (option: AutocompleteOption) => {
+    onChange(option.value);
+    setIsOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setIsOpen(true);
+      setActiveIndex((index) => (options.length === 0 ? -1 : (index + 1) % options.length));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((index) => (options.length === 0 ? -1 : (index - 1 + options.length) % options.length));
+    } else if (e.key === "Enter" && visible && activeIndex >= 0) {
+      // Pick the highlighted suggestion instead of submitting the form.
+      e.preventDefault();
+      select(options[activeIndex]);
+    } else if (e.key === "Escape" && visible) {
+      e.preventDefault();
+      setIsOpen(false);
+      setActiveIndex(-1);
+    }
+  };
+
+  return (
+    <div className="w-full relative">
+      <label className="absolute -top-2.5 left-4 bg-white px-1 text-xs font-semibold text-slate-500 z-10">{label}</label>
+      <input
+        type="text"
+        role="combobox"
+        aria-expanded={visible}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={visible && activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined}
+        autoComplete="off"
+        placeholder={placeholder}
+        className="w-full px-4 py-3.5 bg-slate-50 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setIsOpen(true);
+          setActiveIndex(-1);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        required={required}
+      />
+      {visible && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute left-0 right-0 top-full mt-2 z-30 max-h-72 overflow-y-auto rounded-xl border border-slate-200 bg-white shadow-xl py-1 text-left"
+        >
+          {options.map((option, index) => (
+            <li
+              key={`${option.value}-${option.hint}`}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep focus in the input so blur does not close the list before the click lands.
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => select(option)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`px-4 py-2 cursor-pointer ${index === activeIndex ? "bg-blue-50" : ""}`}
+            >
+              <span className="block text-sm font-bold text-slate-800">
+                {option.value}
+                {option.matchedAltName && <span className="ml-2 text-xs font-semibold text-slate-400">also {option.matchedAltName}</span>}
+              </span>
+              {option.hint && <span className="block text-xs text-slate-500">{option.hint}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
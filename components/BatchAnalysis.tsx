@@ -0,0 +1,223 @@
+import React, { useEffect, useState } from "react";
+import { BatchRow, BatchStatus } from "../types";
+import { cancelBatch, createBatch, getBatch } from "../services/locationService";
+import { downloadBatchCsv, rankBatchRows } from "../services/exportService";
+
+interface BatchAnalysisProps {
+  profileId: string;
+  /** Opens one analysed row as the main report. */
+  onSelect?: (city: string, locality: string) => void;
+}
+
+const POLL_INTERVAL_MS = 3000;
+
+const RowList: React.FC<{ title: string; tone: string; rows: BatchRow[]; renderDetail: (row: BatchRow) => React.ReactNode }> = ({
+  title,
+  tone,
+  rows,
+  renderDetail,
+}) => (
+  <div className="rounded-2xl border border-slate-200 bg-slate-50/70 p-5">
+    <h5 className={`text-sm font-black uppercase tracking-wide ${tone}`}>
+      {title} ({rows.length})
+    </h5>
+    <ul className="mt-3 space-y-2 text-sm">
+      {rows.map((row) => (
+        <li key={`${title}-${row.row}`} className="text-slate-600">
+          <span className="font-bold text-slate-800">
+            Row {row.row}: {row.locality || "-"}, {row.city || "-"}
+          </span>
+          <span className="block text-xs text-slate-500">{renderDetail(row)}</span>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+export const BatchAnalysis: React.FC<BatchAnalysisProps> = ({ profileId, onSelect }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [batch, setBatch] = useState<BatchStatus | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const batchId = batch?.batchId;
+  const isRunning = batch?.state === "running";
+
+  useEffect(() => {
+    if (!batchId) return;
+    let isCurrent = true;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const poll = async () => {
+      try {
+        const next = await getBatch(batchId, profileId);
+        if (!isCurrent) return;
+        setBatch(next);
+        if (next.state === "running") timer = setTimeout(poll, POLL_INTERVAL_MS);
+      } catch (error) {
+        if (isCurrent) setErrorMessage(error instanceof Error ? error.message : "Unable to load batch progress.");
+      }
+    };
+
+    poll();
+    return () => {
+      isCurrent = false;
+      if (timer) clearTimeout(timer);
+    };
+  }, [batchId, profileId]);
+
+  const handleSubmit = async () => {
+    if (!file) return;
+    setIsSubmitting(true);
+    setErrorMessage(null);
+
+    try {
+      setBatch(await createBatch(await file.text(), profileId));
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Unable to start the batch.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!batchId) return;
+    try {
+      setBatch(await cancelBatch(batchId));
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Unable to cancel the batch.");
+    }
+  };
+
+  const rows = batch?.rows || [];
+  const ranked = rankBatchRows(rows).filter((row) => row.result);
+  const ambiguous = rows.filter((row) => row.status === "needs_clarification");
+  const invalid = rows.filter((row) => row.status === "invalid_input" || row.status === "failed" || row.status === "cancelled");
+  const percent = batch && batch.total > 0 ? Math.round((batch.completed / batch.total) * 100) : 0;
+
+  return (
+    <section id="batch" className="px-4 py-12">
+      <div className="bg-white p-8 rounded-3xl border border-slate-200 shadow-sm space-y-8">
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+          <div className="max-w-2xl">
+            <p className="text-xs font-black tracking-[0.2em] text-slate-400 uppercase">Batch Analysis</p>
+            <h3 className="text-2xl font-bold text-slate-900 mt-1">Score a list of localities</h3>
+            <p className="text-sm text-slate-500 mt-1">
+              Upload a CSV with <code className="font-mono text-slate-700">city,locality</code> rows. A header row is optional.
+              Rows are queued gradually so large lists do not crowd out other requests.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+              className="text-sm text-slate-600 file:mr-3 file:rounded-xl file:border-0 file:bg-slate-100 file:px-4 file:py-2.5 file:font-bold file:text-slate-700 hover:file:bg-slate-200"
+            />
+            <button
+              onClick={handleSubmit}
+              disabled={!file || isSubmitting || isRunning}
+              className="bg-blue-600 hover:bg-blue-700 text-white font-bold px-5 py-2.5 rounded-xl shadow-sm transition-all disabled:opacity-50"
+            >
+              {isSubmitting ? "Uploading..." : "Run Batch"}
+            </button>
+          </div>
+        </div>
+
+        {errorMessage && (
+          <div className="rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm font-semibold text-rose-700">{errorMessage}</div>
+        )}
+
+        {batch && (
+          <>
+            <div>
+              <div className="flex items-center justify-between text-sm font-bold text-slate-700 mb-2">
+                <span>
+                  {batch.completed} of {batch.total} rows processed
+                  {batch.state === "cancelled" && " (cancelled)"}
+                </span>
+                <div className="flex items-center gap-4">
+                  {isRunning && (
+                    <button onClick={handleCancel} className="text-slate-400 hover:text-slate-600 underline transition-colors">
+                      Cancel remaining
+                    </button>
+                  )}
+                  <button
+                    onClick={() => downloadBatchCsv(rows)}
+                    className="bg-white border border-slate-200 hover:border-blue-300 hover:bg-blue-50 text-slate-700 font-bold px-4 py-2 rounded-xl shadow-sm transition-all"
+                  >
+                    Export CSV
+                  </button>
+                </div>
+              </div>
+              <div className="h-2 rounded-full bg-slate-100 overflow-hidden">
+                <div className="h-full bg-blue-600 transition-all" style={{ width: `${percent}%` }}></div>
+              </div>
+            </div>
+
+            {ranked.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-slate-200 text-left text-xs font-black uppercase tracking-wide text-slate-500">
+                      <th className="py-3 pr-4">Rank</th>
+                      <th className="py-3 pr-4">Locality</th>
+                      <th className="py-3 pr-4">City</th>
+                      <th className="py-3 pr-4 text-right">Total</th>
+                      <th className="py-3 pr-4">Grade</th>
+                      <th className="py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {ranked.map((row, index) => (
+                      <tr key={`ranked-${row.row}`} className="border-b border-slate-100">
+                        <td className="py-3 pr-4 font-black text-slate-400">{index + 1}</td>
+                        <td className="py-3 pr-4 font-bold text-slate-900">
+                          {row.locality}
+                          {row.error && <span className="block text-xs font-semibold text-amber-600">{row.error}</span>}
+                        </td>
+                        <td className="py-3 pr-4 text-slate-600">{row.city}</td>
+                        <td className="py-3 pr-4 text-right font-black text-slate-900">
+                          {row.result!.totalScore}
+                          <span className="text-slate-400 font-semibold"> / {row.result!.maxTotalScore}</span>
+                        </td>
+                        <td className="py-3 pr-4 font-bold text-blue-700">
+                          {row.result!.grade} - {row.result!.gradeLabel}
+                        </td>
+                        <td className="py-3 text-right">
+                          {onSelect && (
+                            <button onClick={() => onSelect(row.city, row.locality)} className="text-blue-600 font-bold hover:underline">
+                              Open report
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {(ambiguous.length > 0 || invalid.length > 0) && (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {ambiguous.length > 0 && (
+                  <RowList
+                    title="Needs Clarification"
+                    tone="text-amber-700"
+                    rows={ambiguous}
+                    renderDetail={(row) =>
+                      row.suggestedCities.length > 0 ? `Did you mean: ${row.suggestedCities.join(", ")}?` : row.error || "Ambiguous locality."
+                    }
+                  />
+                )}
+                {invalid.length > 0 && (
+                  <RowList title="Invalid Rows" tone="text-rose-700" rows={invalid} renderDetail={(row) => row.error || "Invalid row."} />
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </section>
+  );
+};
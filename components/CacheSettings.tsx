@@ -0,0 +1,112 @@
+import React, { useCallback, useState } from "react";
+import { AnalysisCacheStats, CachedAnalysisEntry } from "../types";
+import { clearAnalysisCache, getCacheStats, invalidateCachedAnalysis, listCachedAnalyses } from "../services/locationService";
+import { getScoringProfile } from "../shared/scoring";
+
+interface CacheSettingsProps {
+  /** Re-runs a cached report fresh and shows it as the main report. */
+  onRerun: (entry: CachedAnalysisEntry) => Promise<void>;
+}
+
+const formatAge = (timestamp: number) => {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  const days = Math.floor(hours / 24);
+  return `${days} day${days === 1 ? "" : "s"} ago`;
+};
+
+const formatSize = (bytes: number) => (bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`);
+
+export const CacheSettings: React.FC<CacheSettingsProps> = ({ onRerun }) => {
+  const [entries, setEntries] = useState<CachedAnalysisEntry[]>([]);
+  const [stats, setStats] = useState<AnalysisCacheStats | null>(null);
+  const [rerunningKey, setRerunningKey] = useState<string | null>(null);
+
+  const reload = useCallback(() => {
+    setEntries(listCachedAnalyses());
+    setStats(getCacheStats());
+  }, []);
+
+  const handleRerun = async (entry: CachedAnalysisEntry) => {
+    setRerunningKey(entry.key);
+    try {
+      await onRerun(entry);
+    } finally {
+      setRerunningKey(null);
+      reload();
+    }
+  };
+
+  const handleRemove = (key: string) => {
+    invalidateCachedAnalysis(key);
+    reload();
+  };
+
+  const handleClear = () => {
+    clearAnalysisCache();
+    reload();
+  };
+
+  return (
+    <section id="cache" className="px-4 pb-12">
+      <details
+        onToggle={(e) => (e.currentTarget as HTMLDetailsElement).open && reload()}
+        className="bg-white p-6 rounded-3xl border border-slate-200 shadow-sm"
+      >
+        <summary className="cursor-pointer text-sm font-black tracking-[0.2em] text-slate-400 uppercase">Saved Reports Cache</summary>
+        <div className="mt-5 space-y-5">
+          {stats && (
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+              <p className="text-sm text-slate-500">
+                {stats.entries} report{stats.entries === 1 ? "" : "s"} using {formatSize(stats.sizeBytes)} of {formatSize(stats.maxBytes)}.
+                Entries expire after {stats.ttlDays} days; the least recently used are dropped first when the cache is full.
+              </p>
+              <button
+                onClick={handleClear}
+                disabled={stats.entries === 0 && stats.lookupEntries === 0}
+                className="shrink-0 bg-white border border-slate-200 hover:border-rose-300 hover:bg-rose-50 text-slate-700 font-bold px-4 py-2 rounded-xl shadow-sm transition-all disabled:opacity-50"
+              >
+                Clear all
+              </button>
+            </div>
+          )}
+
+          {entries.length === 0 ? (
+            <p className="text-sm text-slate-400">No reports are cached in this browser.</p>
+          ) : (
+            <ul className="divide-y divide-slate-100">
+              {entries.map((entry) => (
+                <li key={entry.key} className="flex flex-col md:flex-row md:items-center justify-between gap-3 py-3">
+                  <div className="text-sm">
+                    <span className="font-bold text-slate-900">
+                      {entry.localityName}, {entry.cityName}
+                    </span>
+                    <span className="block text-xs text-slate-500">
+                      {entry.totalScore} / 1000 ({entry.grade}) - {getScoringProfile(entry.profile)?.name || entry.profile} - saved{" "}
+                      {formatAge(entry.savedAt)}, last opened {formatAge(entry.lastUsedAt)}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-4 text-sm">
+                    <button
+                      onClick={() => handleRerun(entry)}
+                      disabled={rerunningKey !== null}
+                      className="text-blue-600 font-bold hover:underline disabled:opacity-50"
+                    >
+                      {rerunningKey === entry.key ? "Re-running..." : "Re-run fresh analysis"}
+                    </button>
+                    <button onClick={() => handleRemove(entry.key)} className="text-slate-400 hover:text-slate-600 underline transition-colors">
+                      Remove
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </details>
+    </section>
+  );
+};
@@ -0,0 +1,250 @@
+import React from "react";
+import { LocateCategory, LocationAnalysis } from "../types";
+import { downloadMultiLocalityCsv } from "../services/exportService";
+import { PIE_COLOR, SERIES_COLOR } from "../constants";
+import { DEFAULT_PROFILE_ID, applyScoringProfile, getScoringProfile } from "../shared/scoring";
+import { ChartSeries, LocateRadar, OverlaidPie } from "./LocateCharts";
+
+interface CompareViewProps {
+  reports: LocationAnalysis[];
+  /** Every report is re-scored with this profile, so the scores share one set of weights. */
+  profileId: string;
+  onRemove: (index: number) => void;
+  onClear: () => void;
+}
+
+export const MAX_COMPARE_LOCALITIES = 5;
+
+const CATEGORY_CODES: LocateCategory["code"][] = ["L", "O", "C", "A", "T", "E"];
+
+export const getCompareKey = (report: LocationAnalysis) =>
+  `${(report.cityName || "").trim().toLowerCase()}::${(report.localityName || "").trim().toLowerCase()}`;
+
+const getCategory = (report: LocationAnalysis, code: LocateCategory["code"]) =>
+  report.categories.find((c) => c.code === code);
+
+const getBestIndex = (reports: LocationAnalysis[]) =>
+  reports.reduce(
+    (bestIndex, report, index) => (report.summary.totalScore > reports[bestIndex].summary.totalScore ? index : bestIndex),
+    0,
+  );
+
+const formatDelta = (delta: number) => {
+  if (delta === 0) return "-";
+  return delta > 0 ? `+${delta}` : `${delta}`;
+};
+
+const getDeltaClass = (delta: number) => {
+  if (delta > 0) return "text-emerald-600";
+  if (delta < 0) return "text-rose-600";
+  return "text-slate-400";
+};
+
+export const CompareView: React.FC<CompareViewProps> = ({ reports: shortlisted, profileId, onRemove, onClear }) => {
+  if (shortlisted.length === 0) return null;
+
+  const profile = getScoringProfile(profileId) || getScoringProfile(DEFAULT_PROFILE_ID)!;
+  const reports = shortlisted.map((report) =>
+    report.summary.profileId === profile.id ? report : applyScoringProfile(report, profile),
+  );
+  const rescoredCount = shortlisted.filter((report) => report.summary.profileId !== profile.id).length;
+
+  const series: ChartSeries[] = reports.map((report, index) => ({
+    label: `${report.localityName}, ${report.cityName}`,
+    color: SERIES_COLOR[index % SERIES_COLOR.length],
+    categories: report.categories,
+  }));
+  const bestIndex = getBestIndex(reports);
+  const best = reports[bestIndex];
+
+  return (
+    <div className="px-4 py-12">
+      <div className="bg-white p-8 rounded-3xl border border-slate-200 shadow-sm space-y-8">
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+          <div>
+            <p className="text-xs font-black tracking-[0.2em] text-slate-400 uppercase">Compare Mode</p>
+            <h3 className="text-2xl font-bold text-slate-900 mt-1">
+              {reports.length} of {MAX_COMPARE_LOCALITIES} localities shortlisted
+            </h3>
+            <p className="text-sm text-slate-500 mt-1">
+              All scores use the {profile.name} profile
+              {rescoredCount > 0 ? `; ${rescoredCount} saved with another profile ${rescoredCount === 1 ? "was" : "were"} re-scored.` : "."}
+            </p>
+            {reports.length < 2 && (
+              <p className="text-sm text-slate-500 mt-1">Analyze another locality and add it to compare side by side.</p>
+            )}
+          </div>
+          <div className="flex items-center gap-4 self-start md:self-auto">
+            <button
+              onClick={() => downloadMultiLocalityCsv(reports, "locate-compare.csv")}
+              className="bg-white border border-slate-200 hover:border-blue-300 hover:bg-blue-50 text-slate-700 font-bold text-sm px-4 py-2 rounded-xl shadow-sm transition-all"
+            >
+              Export CSV
+            </button>
+            <button
+              onClick={onClear}
+              className="text-slate-400 font-bold text-sm hover:text-slate-600 transition-colors underline"
+            >
+              Clear comparison
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-200">
+                <th className="text-left py-3 pr-4 text-xs font-black uppercase tracking-wide text-slate-500">Category</th>
+                {reports.map((report, index) => (
+                  <th key={getCompareKey(report)} className="text-left py-3 px-3 min-w-[160px]">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <span className="inline-block w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: series[index].color }}></span>
+                        <div>
+                          <p className="font-bold text-slate-900">{report.localityName}</p>
+                          <p className="text-xs text-slate-500">{report.cityName}</p>
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => onRemove(index)}
+                        className="text-slate-300 hover:text-rose-500 text-xs font-bold"
+                        aria-label={`Remove ${report.localityName} from comparison`}
+                      >
+                        x
+                      </button>
+                    </div>
+                    {index === bestIndex && reports.length > 1 && (
+                      <span className="mt-2 inline-flex px-2 py-0.5 rounded-full bg-emerald-50 border border-emerald-200 text-[10px] font-black uppercase tracking-widest text-emerald-700">
+                        Best
+                      </span>
+                    )}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {CATEGORY_CODES.map((code) => {
+                const bestCategory = getCategory(best, code);
+                return (
+                  <tr key={`row-${code}`} className="border-b border-slate-100">
+                    <td className="py-3 pr-4">
+                      <div className="flex items-center gap-2">
+                        <span className="inline-block w-2.5 h-2.5 rounded-full" style={{ backgroundColor: PIE_COLOR[code] }}></span>
+                        <span className="font-bold text-slate-700">{code}</span>
+                        <span className="text-xs text-slate-500 hidden lg:inline">{bestCategory?.name}</span>
+                      </div>
+                    </td>
+                    {reports.map((report, index) => {
+                      const category = getCategory(report, code);
+                      const score = category?.score ?? 0;
+                      const delta = score - (bestCategory?.score ?? 0);
+                      return (
+                        <td key={`${code}-${getCompareKey(report)}`} className="py-3 px-3">
+                          <span className="font-bold text-slate-900">{score}</span>
+                          <span className="text-slate-400"> / {category?.maxScore ?? "-"}</span>
+                          {index !== bestIndex && (
+                            <span className={`ml-2 text-xs font-bold ${getDeltaClass(delta)}`}>{formatDelta(delta)}</span>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+              <tr className="border-b border-slate-200 bg-slate-50/70">
+                <td className="py-3 pr-4 font-black text-slate-900">Total</td>
+                {reports.map((report, index) => {
+                  const delta = report.summary.totalScore - best.summary.totalScore;
+                  return (
+                    <td key={`total-${getCompareKey(report)}`} className="py-3 px-3">
+                      <span className="font-black text-slate-900">{report.summary.totalScore}</span>
+                      <span className="text-slate-400"> / 1000</span>
+                      {index !== bestIndex && (
+                        <span className={`ml-2 text-xs font-bold ${getDeltaClass(delta)}`}>{formatDelta(delta)}</span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+              <tr>
+                <td className="py-3 pr-4 font-black text-slate-900">Grade</td>
+                {reports.map((report) => (
+                  <td key={`grade-${getCompareKey(report)}`} className="py-3 px-3 font-bold text-slate-700">
+                    {report.summary.grade} - {report.summary.gradeLabel}
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+          {reports.length > 1 && (
+            <p className="text-xs text-slate-400 mt-3">
+              Deltas are measured against the best locality by total score: {best.localityName}, {best.cityName}.
+            </p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="rounded-2xl border border-slate-200 bg-slate-50/70 p-6 flex flex-col items-center">
+            <h4 className="text-sm font-black uppercase tracking-wide text-slate-700 self-start mb-4">Category Mix</h4>
+            <OverlaidPie series={series} />
+            <p className="text-xs text-slate-500 mt-4">Rings run from the first locality (outer) to the last (inner).</p>
+          </div>
+          <div className="rounded-2xl border border-slate-200 bg-slate-50/70 p-6 flex flex-col items-center">
+            <h4 className="text-sm font-black uppercase tracking-wide text-slate-700 self-start mb-4">Score vs Max</h4>
+            <LocateRadar series={series} />
+            <div className="flex flex-wrap justify-center gap-x-4 gap-y-1 mt-4">
+              {series.map((item) => (
+                <div key={`legend-${item.label}`} className="flex items-center gap-1.5">
+                  <span className="inline-block w-2.5 h-2.5 rounded-full" style={{ backgroundColor: item.color }}></span>
+                  <span className="text-[11px] font-bold text-slate-600">{item.label}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <h4 className="text-lg font-bold text-slate-900 mb-4">Strengths & WatchOuts</h4>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-200">
+                <th className="text-left py-3 pr-4 text-xs font-black uppercase tracking-wide text-slate-500 w-32"></th>
+                {reports.map((report) => (
+                  <th key={`notes-${getCompareKey(report)}`} className="text-left py-3 px-3 font-bold text-slate-900 min-w-[200px]">
+                    {report.localityName}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-b border-slate-100 align-top">
+                <td className="py-3 pr-4 text-xs font-black uppercase tracking-wide text-emerald-700">Strengths</td>
+                {reports.map((report) => (
+                  <td key={`strengths-${getCompareKey(report)}`} className="py-3 px-3">
+                    <ul className="space-y-2 text-slate-600">
+                      {report.interpretation.strengths.map((item, idx) => (
+                        <li key={`strength-${idx}`}>- {item}</li>
+                      ))}
+                    </ul>
+                  </td>
+                ))}
+              </tr>
+              <tr className="align-top">
+                <td className="py-3 pr-4 text-xs font-black uppercase tracking-wide text-rose-700">WatchOuts</td>
+                {reports.map((report) => (
+                  <td key={`watchouts-${getCompareKey(report)}`} className="py-3 px-3">
+                    <ul className="space-y-2 text-slate-600">
+                      {report.interpretation.watchOuts.map((item, idx) => (
+                        <li key={`watch-${idx}`}>- {item}</li>
+                      ))}
+                    </ul>
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
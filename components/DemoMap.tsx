@@ -1,51 +1,265 @@
-
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { GeoPoint, LocationGeo, NearbyLandmark } from '../types';
+import { LandmarkIcon } from './LandmarkIcon';
 
 interface DemoMapProps {
   city: string;
   sector: string;
+  geo?: LocationGeo | null;
+  landmarks?: NearbyLandmark[];
+  /** Index in `landmarks`; names can repeat. */
+  selectedLandmark?: number | null;
+  onSelectLandmark?: (index: number) => void;
 }
 
-export const DemoMap: React.FC<DemoMapProps> = ({ city, sector }) => {
-  const query = encodeURIComponent(`${sector}, ${city}`);
-  const mapUrl = `https://maps.google.com/maps?q=${query}&t=&z=14&ie=UTF8&iwloc=&output=embed`;
+const env = (import.meta as any)?.env || {};
+// Any XYZ raster source, e.g. a self-hosted tile server: https://tiles.example.com/{z}/{x}/{y}.png
+const TILE_URL = (env.VITE_MAP_TILE_URL as string | undefined)?.trim() || '';
+const TILE_ATTRIBUTION = (env.VITE_MAP_TILE_ATTRIBUTION as string | undefined)?.trim() || '';
+
+const TILE_SIZE = 256;
+const MIN_ZOOM = 10;
+const MAX_ZOOM = 17;
+const MAP_HEIGHT = 420;
+const RING_KM = [1, 3, 5];
+// Single tiles fail now and then; only this many failures before any tile loads mean the source is down.
+const TILE_FAILURE_LIMIT = 4;
+const METERS_PER_PIXEL_AT_ZOOM_0 = 156543.03392;
+
+/** Web Mercator position in world pixels at the given zoom. */
+const project = ({ lat, lng }: GeoPoint, zoom: number) => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sin = Math.sin((Math.max(-85, Math.min(85, lat)) * Math.PI) / 180);
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+};
+
+const unproject = (x: number, y: number, zoom: number): GeoPoint => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const n = Math.PI - (2 * Math.PI * y) / scale;
+  return { lat: (180 / Math.PI) * Math.atan(Math.sinh(n)), lng: (x / scale) * 360 - 180 };
+};
+
+const metersPerPixel = (lat: number, zoom: number) => (METERS_PER_PIXEL_AT_ZOOM_0 * Math.cos((lat * Math.PI) / 180)) / 2 ** zoom;
+
+/** Largest zoom at which the outer distance ring still fits in the viewport. */
+const getFitZoom = (lat: number, width: number, height: number) => {
+  const radiusPx = Math.min(width, height) * 0.45;
+  const zoom = Math.floor(Math.log2((METERS_PER_PIXEL_AT_ZOOM_0 * Math.cos((lat * Math.PI) / 180) * radiusPx) / (RING_KM[RING_KM.length - 1] * 1000)));
+  return Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+};
+
+const getTileUrl = (z: number, x: number, y: number) =>
+  TILE_URL.replace('{z}', String(z)).replace('{x}', String(x)).replace('{y}', String(y));
+
+export const DemoMap: React.FC<DemoMapProps> = ({ city, sector, geo, landmarks = [], selectedLandmark, onSelectLandmark }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number; center: { x: number; y: number } } | null>(null);
+  const [width, setWidth] = useState(0);
+  const [center, setCenter] = useState<GeoPoint | null>(geo?.centroid || null);
+  const [zoom, setZoom] = useState(MIN_ZOOM);
+  const [tileStatus, setTileStatus] = useState({ loaded: false, failures: 0 });
+
+  useEffect(() => {
+    const node = containerRef.current;
+    if (!node) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, []);
+
+  const hasWidth = width > 0;
+  useEffect(() => {
+    if (!geo || !containerRef.current) return;
+    setCenter(geo.centroid);
+    setZoom(getFitZoom(geo.centroid.lat, containerRef.current.clientWidth, MAP_HEIGHT));
+  }, [geo, hasWidth]);
+
+  // Each report gets a fresh try at the tile source.
+  useEffect(() => {
+    setTileStatus({ loaded: false, failures: 0 });
+  }, [geo]);
+
+  const isSchematic = !TILE_URL || (!tileStatus.loaded && tileStatus.failures >= TILE_FAILURE_LIMIT);
+
+  const pinned = landmarks.map((item, index) => ({ item, index })).filter(({ item }) => item.coordinates);
+  const unpinnedCount = landmarks.length - pinned.length;
+  const osmLink = geo
+    ? `https://www.openstreetmap.org/?mlat=${geo.centroid.lat}&mlon=${geo.centroid.lng}#map=15/${geo.centroid.lat}/${geo.centroid.lng}`
+    : `https://www.openstreetmap.org/search?query=${encodeURIComponent(`${sector}, ${city}`)}`;
+
+  const view = geo && center && width > 0 ? { origin: project(center, zoom), width, height: MAP_HEIGHT } : null;
+  const toScreen = (point: GeoPoint) => {
+    const world = project(point, zoom);
+    return { x: world.x - view!.origin.x + view!.width / 2, y: world.y - view!.origin.y + view!.height / 2 };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!view || (e.target as HTMLElement).closest('button')) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY, center: view.origin };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    setCenter(unproject(drag.center.x - (e.clientX - drag.x), drag.center.y - (e.clientY - drag.y), zoom));
+  };
+
+  const renderTiles = () => {
+    if (!view || isSchematic) return null;
+    const count = 2 ** zoom;
+    const left = view.origin.x - view.width / 2;
+    const top = view.origin.y - view.height / 2;
+    const tiles: React.ReactNode[] = [];
+
+    for (let ty = Math.floor(top / TILE_SIZE); ty <= Math.floor((top + view.height) / TILE_SIZE); ty += 1) {
+      for (let tx = Math.floor(left / TILE_SIZE); tx <= Math.floor((left + view.width) / TILE_SIZE); tx += 1) {
+        if (ty < 0 || ty >= count) continue;
+        const wrappedX = ((tx % count) + count) % count;
+        tiles.push(
+          <img
+            key={`${zoom}-${tx}-${ty}`}
+            src={getTileUrl(zoom, wrappedX, ty)}
+            alt=""
+            draggable={false}
+            onLoad={() => setTileStatus((status) => (status.loaded ? status : { ...status, loaded: true }))}
+            onError={() => setTileStatus((status) => (status.loaded ? status : { ...status, failures: status.failures + 1 }))}
+            className="absolute select-none"
+            style={{ left: tx * TILE_SIZE - left, top: ty * TILE_SIZE - top, width: TILE_SIZE, height: TILE_SIZE }}
+          />,
+        );
+      }
+    }
+    return tiles;
+  };
+
+  const centroidPx = view && geo ? toScreen(geo.centroid) : null;
+  const kmToPx = view && geo ? 1000 / metersPerPixel(geo.centroid.lat, zoom) : 0;
 
   return (
     <div className="bg-white rounded-3xl shadow-xl border border-slate-200 overflow-hidden mb-20">
       {/* Header Info */}
       <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50/50">
         <div className="flex items-center gap-3">
-          <div className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse"></div>
-          <span className="text-[11px] font-black text-slate-500 uppercase tracking-widest">Live Locality View</span>
+          <div className="w-2 h-2 rounded-full bg-blue-600"></div>
+          <span className="text-[11px] font-black text-slate-500 uppercase tracking-widest">
+            Locality Map{isSchematic && geo ? ' - Schematic' : ''}
+          </span>
         </div>
-        <a 
-          href={`https://www.google.com/maps/search/${query}`} 
-          target="_blank" 
+        <a
+          href={osmLink}
+          target="_blank"
           rel="noopener noreferrer"
           className="text-xs font-bold text-blue-600 hover:text-blue-700 flex items-center gap-1 transition-colors"
         >
-          Open in Google Maps
+          Open in OpenStreetMap
           <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
           </svg>
         </a>
       </div>
 
-      {/* Map Embed Container */}
-      <div className="relative aspect-video md:aspect-[21/9] w-full bg-slate-100">
-        <iframe
-          title="Locality Map"
-          width="100%"
-          height="100%"
-          style={{ border: 0 }}
-          src={mapUrl}
-          allowFullScreen
-          loading="lazy"
-          className="grayscale-[20%] contrast-[1.1] brightness-[1.02]"
-        ></iframe>
-        
-        {/* Interactive Overlay Badge */}
-        <div className="absolute bottom-4 left-4 z-10 bg-white/90 backdrop-blur-md px-4 py-2 rounded-xl shadow-lg border border-white/20 flex items-center gap-3">
+      {/* Map Viewport */}
+      <div
+        ref={containerRef}
+        className={`relative w-full overflow-hidden touch-none ${isSchematic ? 'bg-slate-50' : 'bg-slate-100'} ${view ? 'cursor-grab active:cursor-grabbing' : ''}`}
+        style={{ height: MAP_HEIGHT }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => (dragRef.current = null)}
+        onPointerCancel={() => (dragRef.current = null)}
+        onDoubleClick={(e) => {
+          if (!(e.target as HTMLElement).closest('button')) setZoom((z) => Math.min(MAX_ZOOM, z + 1));
+        }}
+      >
+        {!geo && (
+          <div className="absolute inset-0 flex items-center justify-center px-6 text-center text-sm text-slate-500">
+            {sector}, {city} is not in the location index yet, so it cannot be placed on the map.
+          </div>
+        )}
+
+        {renderTiles()}
+
+        {view && centroidPx && (
+          <svg className="absolute inset-0 pointer-events-none" width={view.width} height={view.height}>
+            {isSchematic && (
+              <>
+                <defs>
+                  <pattern id="map-grid" width="40" height="40" patternUnits="userSpaceOnUse">
+                    <path d="M40 0H0V40" fill="none" stroke="#e2e8f0" strokeWidth="1" />
+                  </pattern>
+                </defs>
+                <rect width="100%" height="100%" fill="url(#map-grid)" />
+              </>
+            )}
+            {geo?.boundingPolygon && (
+              <polygon
+                points={geo.boundingPolygon.map((point) => {
+                  const p = toScreen(point);
+                  return `${p.x},${p.y}`;
+                }).join(' ')}
+                fill="#2563eb"
+                fillOpacity="0.04"
+                stroke="#2563eb"
+                strokeOpacity="0.4"
+                strokeDasharray="6 4"
+              />
+            )}
+            {RING_KM.map((km) => (
+              <g key={`ring-${km}`}>
+                <circle cx={centroidPx.x} cy={centroidPx.y} r={km * kmToPx} fill="none" stroke="#2563eb" strokeOpacity="0.45" strokeWidth="1.5" strokeDasharray="4 4" />
+                <text x={centroidPx.x + km * kmToPx * 0.71 + 4} y={centroidPx.y - km * kmToPx * 0.71 - 4} fontSize="11" fontWeight="700" fill="#1d4ed8">
+                  {km} km
+                </text>
+              </g>
+            ))}
+            <circle cx={centroidPx.x} cy={centroidPx.y} r="9" fill="#2563eb" fillOpacity="0.2" />
+            <circle cx={centroidPx.x} cy={centroidPx.y} r="5" fill="#2563eb" stroke="#fff" strokeWidth="2" />
+          </svg>
+        )}
+
+        {view &&
+          pinned.map(({ item, index }) => {
+            const p = toScreen(item.coordinates!);
+            const isSelected = index === selectedLandmark;
+            return (
+              <button
+                key={`pin-${index}`}
+                type="button"
+                title={`${item.name} - ${item.category}, ${item.distanceKm} km`}
+                onClick={() => onSelectLandmark?.(index)}
+                className={`absolute -translate-x-1/2 -translate-y-full flex items-center justify-center w-8 h-8 rounded-full border-2 shadow-md transition-transform ${
+                  isSelected ? 'bg-blue-600 text-white border-white scale-125 z-20' : 'bg-white text-blue-600 border-blue-600 z-10 hover:scale-110'
+                }`}
+                style={{ left: p.x, top: p.y }}
+              >
+                <LandmarkIcon category={item.category} className="w-4 h-4" />
+              </button>
+            );
+          })}
+
+        {view && (
+          <div className="absolute top-4 right-4 z-30 flex flex-col rounded-xl overflow-hidden border border-slate-200 shadow bg-white">
+            <button type="button" onClick={() => setZoom((z) => Math.min(MAX_ZOOM, z + 1))} className="w-9 h-9 font-black text-slate-700 hover:bg-slate-50" aria-label="Zoom in">
+              +
+            </button>
+            <button type="button" onClick={() => setZoom((z) => Math.max(MIN_ZOOM, z - 1))} className="w-9 h-9 font-black text-slate-700 hover:bg-slate-50 border-t border-slate-200" aria-label="Zoom out">
+              -
+            </button>
+            <button type="button" onClick={() => geo && setCenter(geo.centroid)} className="w-9 h-9 text-slate-700 hover:bg-slate-50 border-t border-slate-200 flex items-center justify-center" aria-label="Re-centre">
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <circle cx="12" cy="12" r="3" strokeWidth={2} />
+                <path strokeLinecap="round" strokeWidth={2} d="M12 2v4M12 18v4M2 12h4M18 12h4" />
+              </svg>
+            </button>
+          </div>
+        )}
+
+        {/* Target Badge */}
+        <div className="absolute bottom-4 left-4 z-30 bg-white/90 backdrop-blur-md px-4 py-2 rounded-xl shadow-lg border border-white/20 flex items-center gap-3 pointer-events-none">
           <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center text-white">
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
@@ -56,12 +270,27 @@ export const DemoMap: React.FC<DemoMapProps> = ({ city, sector }) => {
             <p className="text-sm font-bold text-slate-900 leading-none">{sector}</p>
           </div>
         </div>
+
+        {!isSchematic && TILE_ATTRIBUTION && (
+          <div className="absolute bottom-0 right-0 z-30 bg-white/80 px-2 py-0.5 text-[10px] text-slate-600">{TILE_ATTRIBUTION}</div>
+        )}
       </div>
-      
+
       {/* Footer Note */}
       <div className="p-4 bg-slate-900 text-center">
         <p className="text-[11px] text-slate-400 font-medium">
-          <span className="text-slate-200">Intelligence Note:</span> Map data is synchronized with real-time infrastructure indices for {city}.
+          {geo ? (
+            <>
+              <span className="text-slate-200">Location:</span> {geo.matchLevel === 'city' ? `${city} city centre (locality not indexed)` : geo.matchedName}, {Math.round(geo.confidence * 100)}% geocoding confidence.
+              {' '}Rings show straight-line distance from the centroid.
+              {unpinnedCount > 0 && ` ${unpinnedCount} landmark${unpinnedCount === 1 ? ' has' : 's have'} no coordinates and ${unpinnedCount === 1 ? 'is' : 'are'} not pinned.`}
+              {isSchematic && TILE_URL && ' Map tiles are unreachable; showing a schematic view.'}
+            </>
+          ) : (
+            <>
+              <span className="text-slate-200">Location:</span> {sector}, {city} could not be geocoded.
+            </>
+          )}
         </p>
       </div>
     </div>
@@ -0,0 +1,39 @@
+import React from "react";
+import { LocationAnalysis } from "../types";
+import { downloadAnalysisJson, downloadCategorySectionsCsv, downloadLandmarksCsv } from "../services/exportService";
+
+interface ExportMenuProps {
+  report: LocationAnalysis;
+}
+
+const EXPORT_OPTIONS: { label: string; hint: string; run: (report: LocationAnalysis) => void }[] = [
+  { label: "JSON", hint: "Full analysis as returned by the API", run: downloadAnalysisJson },
+  { label: "Categories CSV", hint: "One row per category section", run: downloadCategorySectionsCsv },
+  { label: "Landmarks CSV", hint: "One row per nearby landmark", run: downloadLandmarksCsv },
+];
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ report }) => (
+  <details className="relative group">
+    <summary className="list-none cursor-pointer flex items-center gap-2 bg-white border border-slate-200 hover:border-blue-300 hover:bg-blue-50 text-slate-700 font-bold px-5 py-2.5 rounded-xl shadow-sm transition-all">
+      <svg className="w-5 h-5 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M3 14h18M10 3v18M5 3h14a2 2 0 012 2v14a2 2 0 01-2 2H5a2 2 0 01-2-2V5a2 2 0 012-2z" />
+      </svg>
+      Export Data
+    </summary>
+    <div className="absolute right-0 z-20 mt-2 w-64 rounded-xl border border-slate-200 bg-white shadow-lg p-1">
+      {EXPORT_OPTIONS.map((option) => (
+        <button
+          key={option.label}
+          onClick={(event) => {
+            option.run(report);
+            event.currentTarget.closest("details")?.removeAttribute("open");
+          }}
+          className="w-full text-left px-3 py-2 rounded-lg hover:bg-blue-50 transition-colors"
+        >
+          <span className="block text-sm font-bold text-slate-700">{option.label}</span>
+          <span className="block text-xs text-slate-400">{option.hint}</span>
+        </button>
+      ))}
+    </div>
+  </details>
+);
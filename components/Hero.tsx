@@ -1,15 +1,53 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
+import { AnalysisProgress, AnalysisStage } from '../types';
+import { reverseGeocode } from '../services/locationService';
+import { suggestCities, suggestLocalities } from '../shared/gazetteer';
+import { AutocompleteInput, AutocompleteOption } from './AutocompleteInput';
 
 interface HeroProps {
   onAnalyze: (city: string, sector: string) => void;
   isLoading: boolean;
+  progress?: AnalysisProgress | null;
 }
 
-export const Hero: React.FC<HeroProps> = ({ onAnalyze, isLoading }) => {
+const PROGRESS_STEPS: { stage: AnalysisStage; label: string }[] = [
+  { stage: 'queued', label: 'Queued' },
+  { stage: 'validation', label: 'Validating input' },
+  { stage: 'ambiguity', label: 'Checking city matches' },
+  { stage: 'report', label: 'Generating report' },
+  { stage: 'landmarks', label: 'Verifying landmarks' },
+];
+
+// Fixes coarser than this (cell-tower or IP based) cannot tell localities apart.
+const MAX_LOCATION_ACCURACY_M = 1500;
+
+const getPositionErrorMessage = (error: GeolocationPositionError) => {
+  if (error.code === error.PERMISSION_DENIED) {
+    return 'Location access was blocked. Allow location for this site in your browser settings, or type a city and locality.';
+  }
+  if (error.code === error.TIMEOUT) {
+    return 'Finding your location took too long. Try again, or type a city and locality.';
+  }
+  return 'Your device could not determine its location. Try again, or type a city and locality.';
+};
+
+export const Hero: React.FC<HeroProps> = ({ onAnalyze, isLoading, progress }) => {
   const [city, setCity] = useState('');
   const [sector, setSector] = useState('');
+  const [isLocating, setIsLocating] = useState(false);
+  const [locationMessage, setLocationMessage] = useState<string | null>(null);
+
+  // Suggestions come from the bundled gazetteer; localities are scoped to the typed city.
+  const cityOptions = useMemo<AutocompleteOption[]>(
+    () => (city.trim() ? suggestCities(city).map((item) => ({ value: item.name, hint: item.hint, matchedAltName: item.matchedAltName })) : []),
+    [city],
+  );
+  const localityOptions = useMemo<AutocompleteOption[]>(
+    () => suggestLocalities(city, sector).map((item) => ({ value: item.name, hint: item.hint, matchedAltName: item.matchedAltName })),
+    [city, sector],
+  );
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -19,8 +57,50 @@ export const Hero: React.FC<HeroProps> = ({ onAnalyze, isLoading }) => {
     }
   };
 
+  const handleUseLocation = () => {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      setLocationMessage('This browser does not share its location. Type a city and locality instead.');
+      return;
+    }
+
+    setIsLocating(true);
+    setLocationMessage(null);
+    navigator.geolocation.getCurrentPosition(
+      async ({ coords }) => {
+        try {
+          const place = await reverseGeocode({ lat: coords.latitude, lng: coords.longitude });
+          setCity(place.city);
+          setSector(coords.accuracy > MAX_LOCATION_ACCURACY_M ? '' : place.locality || '');
+
+          if (coords.accuracy > MAX_LOCATION_ACCURACY_M) {
+            setLocationMessage(
+              `Your location is only accurate to about ${Math.round(coords.accuracy / 100) / 10} km, which is too coarse to pick a locality. We filled in ${place.city}; enter the locality to continue.`,
+            );
+            return;
+          }
+          if (!place.locality) {
+            setLocationMessage(`You appear to be in ${place.city}, but not near a locality we know. Enter the locality to continue.`);
+            return;
+          }
+          onAnalyze(place.city, place.locality);
+        } catch (error) {
+          setLocationMessage(error instanceof Error ? error.message : 'Unable to look up your location right now.');
+        } finally {
+          setIsLocating(false);
+        }
+      },
+      (error) => {
+        setIsLocating(false);
+        setLocationMessage(getPositionErrorMessage(error));
+      },
+      { enableHighAccuracy: true, timeout: 15000, maximumAge: 60000 },
+    );
+  };
+
   // Button is disabled if loading OR if either field is empty
   const isButtonDisabled = isLoading || !sector.trim() || !city.trim();
+  const activeStep = progress ? PROGRESS_STEPS.findIndex((step) => step.stage === progress.stage) : -1;
+  const activeLabel = activeStep >= 0 ? PROGRESS_STEPS[activeStep].label : 'Analyzing';
 
   return (
     <section id="home" className="pt-32 pb-10 px-4">
@@ -33,28 +113,22 @@ export const Hero: React.FC<HeroProps> = ({ onAnalyze, isLoading }) => {
         </div>
 
         <form onSubmit={handleSubmit} className="bg-white p-4 md:p-6 rounded-2xl shadow-2xl border border-slate-100 flex flex-col md:flex-row gap-4 items-center">
-          <div className="w-full relative">
-            <label className="absolute -top-2.5 left-4 bg-white px-1 text-xs font-semibold text-slate-500">City (India)</label>
-            <input 
-              type="text" 
-              placeholder="e.g. Mumbai, Bangalore"
-              className="w-full px-4 py-3.5 bg-slate-50 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all"
-              value={city}
-              onChange={(e) => setCity(e.target.value)}
-              required
-            />
-          </div>
-          <div className="w-full relative">
-            <label className="absolute -top-2.5 left-4 bg-white px-1 text-xs font-semibold text-slate-500">Locality</label>
-            <input 
-              type="text" 
-              placeholder="e.g. Whitefield, Bandra West"
-              className="w-full px-4 py-3.5 bg-slate-50 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all"
-              value={sector}
-              onChange={(e) => setSector(e.target.value)}
-              required
-            />
-          </div>
+          <AutocompleteInput
+            label="City (India)"
+            placeholder="e.g. Mumbai, Bangalore"
+            value={city}
+            onChange={setCity}
+            options={cityOptions}
+            required
+          />
+          <AutocompleteInput
+            label="Locality"
+            placeholder="e.g. Whitefield, Bandra West"
+            value={sector}
+            onChange={setSector}
+            options={localityOptions}
+            required
+          />
           <button 
             type="submit"
             disabled={isButtonDisabled}
@@ -63,13 +137,52 @@ export const Hero: React.FC<HeroProps> = ({ onAnalyze, isLoading }) => {
             {isLoading ? (
               <>
                 <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                Analyzing...
+                {activeLabel}...
               </>
             ) : (
               'Generate Score'
             )}
           </button>
         </form>
+
+        <div className="mt-4 flex flex-col items-center gap-2">
+          <button
+            type="button"
+            onClick={handleUseLocation}
+            disabled={isLoading || isLocating}
+            className="flex items-center gap-2 text-sm font-bold text-blue-600 hover:text-blue-700 disabled:opacity-50 transition-colors"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <circle cx="12" cy="12" r="3" strokeWidth={2} />
+              <path strokeLinecap="round" strokeWidth={2} d="M12 2v4M12 18v4M2 12h4M18 12h4" />
+            </svg>
+            {isLocating ? 'Finding your location...' : 'Use my current location'}
+          </button>
+          {locationMessage && (
+            <p className="max-w-xl text-center text-sm font-medium text-amber-700 bg-amber-50 border border-amber-200 rounded-xl px-4 py-2" role="status">
+              {locationMessage}
+            </p>
+          )}
+        </div>
+
+        {isLoading && progress && (
+          <ol className="mt-6 flex flex-wrap justify-center gap-x-6 gap-y-2" aria-live="polite">
+            {PROGRESS_STEPS.map((step, index) => {
+              const isDone = index < activeStep;
+              const isActive = index === activeStep;
+              return (
+                <li key={step.stage} className="flex items-center gap-2 text-xs font-semibold">
+                  <span
+                    className={`w-2.5 h-2.5 rounded-full ${
+                      isDone ? 'bg-emerald-500' : isActive ? 'bg-blue-600 animate-pulse' : 'bg-slate-200'
+                    }`}
+                  ></span>
+                  <span className={isDone || isActive ? 'text-slate-700' : 'text-slate-400'}>{step.label}</span>
+                </li>
+              );
+            })}
+          </ol>
+        )}
       </div>
     </section>
   );
@@ -0,0 +1,75 @@
+import React from "react";
+
+/** Category icon shared by the landmark cards and the map pins. */
+export const LandmarkIcon: React.FC<{ category: string; className?: string }> = ({ category, className = "w-5 h-5" }) => {
+  const c = category.toLowerCase();
+
+  if (c.includes("metro")) {
+    return (
+      <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className={className}>
+        <rect x="4" y="3" width="16" height="14" rx="2" />
+        <path d="M8 17l-2 4M16 17l2 4M7 11h10M9 7h1M14 7h1" />
+      </svg>
+    );
+  }
+  if (c.includes("hospital")) {
+    return (
+      <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className={className}>
+        <rect x="3" y="4" width="18" height="16" rx="2" />
+        <path d="M12 8v8M8 12h8" />
+      </svg>
+    );
+  }
+  if (c.includes("school") || c.includes("university")) {
+    return (
+      <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className={className}>
+        <path d="M2 10l10-5 10 5-10 5-10-5z" />
+        <path d="M6 12v5c0 2 2 3 6 3s6-1 6-3v-5" />
+      </svg>
+    );
+  }
+  if (c.includes("mall")) {
+    return (
+      <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className={className}>
+        <path d="M6 8h12l-1 12H7L6 8zM9 8V6a3 3 0 116 0v2" />
+      </svg>
+    );
+  }
+  if (c.includes("airport")) {
+    return (
+      <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className={className}>
+        <path d="M2 19h20M10 19l2-7M12 12l9-4-1-2-8 2-2-5-2 1 1 5-6 2 1 2 7-1" />
+      </svg>
+    );
+  }
+  if (c.includes("park")) {
+    return (
+      <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className={className}>
+        <path d="M12 22V12M7 12a5 5 0 0110 0M9 8a3 3 0 116 0" />
+      </svg>
+    );
+  }
+  if (c.includes("railway")) {
+    return (
+      <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className={className}>
+        <rect x="5" y="3" width="14" height="14" rx="2" />
+        <path d="M8 17l-2 4M16 17l2 4M8 8h.01M16 8h.01M8 12h8" />
+      </svg>
+    );
+  }
+  if (c.includes("it")) {
+    return (
+      <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className={className}>
+        <rect x="3" y="4" width="18" height="14" rx="2" />
+        <path d="M8 20h8M10 18v2M14 18v2" />
+      </svg>
+    );
+  }
+
+  return (
+    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className={className}>
+      <path d="M12 22s7-6 7-12a7 7 0 10-14 0c0 6 7 12 7 12z" />
+      <circle cx="12" cy="10" r="2.5" />
+    </svg>
+  );
+};
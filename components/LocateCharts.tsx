@@ -0,0 +1,165 @@
+import React from "react";
+import { PIE_COLOR } from "../constants";
+import { LocateCategory } from "../types";
+
+export const getCoordinatesForPercent = (percent: number, radius = 1) => {
+  const x = Math.cos(2 * Math.PI * percent) * radius;
+  const y = Math.sin(2 * Math.PI * percent) * radius;
+  return [x, y] as const;
+};
+
+const buildRingSlicePath = (startPercent: number, endPercent: number, outer: number, inner: number) => {
+  const [startX, startY] = getCoordinatesForPercent(startPercent, outer);
+  const [endX, endY] = getCoordinatesForPercent(endPercent, outer);
+  const largeArcFlag = endPercent - startPercent > 0.5 ? 1 : 0;
+
+  if (inner <= 0) {
+    return [`M ${startX} ${startY}`, `A ${outer} ${outer} 0 ${largeArcFlag} 1 ${endX} ${endY}`, "L 0 0"].join(" ");
+  }
+
+  const [innerEndX, innerEndY] = getCoordinatesForPercent(endPercent, inner);
+  const [innerStartX, innerStartY] = getCoordinatesForPercent(startPercent, inner);
+  return [
+    `M ${startX} ${startY}`,
+    `A ${outer} ${outer} 0 ${largeArcFlag} 1 ${endX} ${endY}`,
+    `L ${innerEndX} ${innerEndY}`,
+    `A ${inner} ${inner} 0 ${largeArcFlag} 0 ${innerStartX} ${innerStartY}`,
+    "Z",
+  ].join(" ");
+};
+
+const getPieSlices = (categories: LocateCategory[]) => {
+  const total = categories.reduce((sum, item) => sum + item.score, 0) || 1;
+  let cumulativePercent = 0;
+  return categories.map((cat) => {
+    const start = cumulativePercent;
+    cumulativePercent += cat.score / total;
+    return {
+      code: cat.code,
+      value: cat.score,
+      share: cat.score / total,
+      start,
+      end: cumulativePercent,
+      color: PIE_COLOR[cat.code] || "#64748b",
+    };
+  });
+};
+
+interface LocatePieProps {
+  categories: LocateCategory[];
+  className?: string;
+}
+
+export const LocatePie: React.FC<LocatePieProps> = ({ categories, className = "w-32 h-32" }) => {
+  const slices = getPieSlices(categories);
+
+  return (
+    <svg className={`${className} -rotate-90`} viewBox="-1 -1 2 2" aria-label="LOCATE category distribution">
+      {slices.map((slice) => (
+        <path key={slice.code} d={buildRingSlicePath(slice.start, slice.end, 1, 0)} fill={slice.color}>
+          <title>{`${slice.code}: ${slice.value} (${Math.round(slice.share * 100)}%)`}</title>
+        </path>
+      ))}
+      <circle cx="0" cy="0" r="0.56" fill="#ffffff" />
+    </svg>
+  );
+};
+
+export interface ChartSeries {
+  label: string;
+  color: string;
+  categories: LocateCategory[];
+}
+
+interface OverlaidPieProps {
+  series: ChartSeries[];
+  className?: string;
+}
+
+/** Concentric donut rings, one per series, outermost first. */
+export const OverlaidPie: React.FC<OverlaidPieProps> = ({ series, className = "w-56 h-56" }) => {
+  const hole = 0.3;
+  const ringWidth = (1 - hole) / Math.max(1, series.length);
+
+  return (
+    <svg className={`${className} -rotate-90`} viewBox="-1 -1 2 2" aria-label="LOCATE distribution by locality">
+      {series.map((item, ringIndex) => {
+        const outer = 1 - ringIndex * ringWidth;
+        const inner = outer - ringWidth + 0.02;
+        return (
+          <g key={`ring-${item.label}-${ringIndex}`}>
+            {getPieSlices(item.categories).map((slice) => (
+              <path key={slice.code} d={buildRingSlicePath(slice.start, slice.end, outer, inner)} fill={slice.color}>
+                <title>{`${item.label} - ${slice.code}: ${slice.value} (${Math.round(slice.share * 100)}%)`}</title>
+              </path>
+            ))}
+            <circle cx="0" cy="0" r={outer} fill="none" stroke={item.color} strokeWidth="0.015" />
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+interface LocateRadarProps {
+  series: ChartSeries[];
+  className?: string;
+}
+
+const RADAR_AXES: LocateCategory["code"][] = ["L", "O", "C", "A", "T", "E"];
+
+const getRadarPoint = (axisIndex: number, ratio: number) => {
+  // Start at 12 o'clock and walk clockwise.
+  const angle = -Math.PI / 2 + (2 * Math.PI * axisIndex) / RADAR_AXES.length;
+  return [Math.cos(angle) * ratio, Math.sin(angle) * ratio] as const;
+};
+
+/** Radar of score / maxScore per LOCATE category, one polygon per series. */
+export const LocateRadar: React.FC<LocateRadarProps> = ({ series, className = "w-64 h-64" }) => {
+  const rings = [0.25, 0.5, 0.75, 1];
+
+  return (
+    <svg className={className} viewBox="-1.2 -1.2 2.4 2.4" aria-label="LOCATE radar comparison">
+      {rings.map((ring) => (
+        <polygon
+          key={`grid-${ring}`}
+          points={RADAR_AXES.map((_, i) => getRadarPoint(i, ring).join(",")).join(" ")}
+          fill="none"
+          stroke="#e2e8f0"
+          strokeWidth="0.01"
+        />
+      ))}
+      {RADAR_AXES.map((code, i) => {
+        const [x, y] = getRadarPoint(i, 1);
+        const [lx, ly] = getRadarPoint(i, 1.1);
+        return (
+          <g key={`axis-${code}`}>
+            <line x1="0" y1="0" x2={x} y2={y} stroke="#e2e8f0" strokeWidth="0.01" />
+            <text x={lx} y={ly} fontSize="0.1" fontWeight="800" fill="#475569" textAnchor="middle" dominantBaseline="middle">
+              {code}
+            </text>
+          </g>
+        );
+      })}
+      {series.map((item, seriesIndex) => {
+        const points = RADAR_AXES.map((code, i) => {
+          const cat = item.categories.find((c) => c.code === code);
+          const ratio = cat && cat.maxScore > 0 ? Math.max(0, Math.min(1, cat.score / cat.maxScore)) : 0;
+          return getRadarPoint(i, ratio).join(",");
+        }).join(" ");
+        return (
+          <polygon
+            key={`series-${item.label}-${seriesIndex}`}
+            points={points}
+            fill={item.color}
+            fillOpacity="0.12"
+            stroke={item.color}
+            strokeWidth="0.02"
+          >
+            <title>{item.label}</title>
+          </polygon>
+        );
+      })}
+    </svg>
+  );
+};
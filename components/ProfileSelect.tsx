@@ -0,0 +1,30 @@
+import React from "react";
+import { SCORING_PROFILES } from "../shared/scoring";
+
+interface ProfileSelectProps {
+  value: string;
+  onChange: (profileId: string) => void;
+  disabled?: boolean;
+}
+
+export const ProfileSelect: React.FC<ProfileSelectProps> = ({ value, onChange, disabled }) => {
+  const active = SCORING_PROFILES.find((profile) => profile.id === value);
+
+  return (
+    <label className="relative block" title={active?.description}>
+      <span className="absolute -top-2.5 left-3 bg-slate-50 px-1 text-[10px] font-semibold text-slate-500">Scoring Profile</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        className="bg-white border border-slate-200 text-slate-700 font-bold pl-4 pr-8 py-2.5 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+      >
+        {SCORING_PROFILES.map((profile) => (
+          <option key={profile.id} value={profile.id}>
+            {profile.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
@@ -0,0 +1,58 @@
+import React, { useState } from "react";
+import { LocationAnalysis } from "../types";
+import { getLocalityReportPath, getSavedReportPath, toAbsoluteUrl } from "../services/permalinks";
+
+interface ReportLinkMenuProps {
+  report: LocationAnalysis;
+  /** The city and locality as searched, so the locality link reruns the same lookup. */
+  city: string;
+  locality: string;
+  profileId: string;
+}
+
+export const ReportLinkMenu: React.FC<ReportLinkMenuProps> = ({ report, city, locality, profileId }) => {
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const options = [
+    ...(report.reportId
+      ? [{ label: "This report", hint: "Always opens this exact version", path: getSavedReportPath(report.reportId, profileId) }]
+      : []),
+    { label: "Latest for this locality", hint: "Opens the newest report for the locality", path: getLocalityReportPath(city, locality, profileId) },
+  ];
+
+  const copyLink = async (label: string, path: string) => {
+    const url = toAbsoluteUrl(path);
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(label);
+    } catch {
+      window.prompt("Copy this link:", url);
+    }
+  };
+
+  return (
+    <details className="relative group" onToggle={() => setCopied(null)}>
+      <summary className="list-none cursor-pointer flex items-center gap-2 bg-white border border-slate-200 hover:border-blue-300 hover:bg-blue-50 text-slate-700 font-bold px-5 py-2.5 rounded-xl shadow-sm transition-all">
+        <svg className="w-5 h-5 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+        </svg>
+        Copy Link
+      </summary>
+      <div className="absolute right-0 z-20 mt-2 w-72 rounded-xl border border-slate-200 bg-white shadow-lg p-1">
+        {options.map((option) => (
+          <button
+            key={option.label}
+            onClick={() => copyLink(option.label, option.path)}
+            className="w-full text-left px-3 py-2 rounded-lg hover:bg-blue-50 transition-colors"
+          >
+            <span className="block text-sm font-bold text-slate-700">
+              {option.label}
+              {copied === option.label && <span className="ml-2 text-xs font-semibold text-emerald-600">Copied</span>}
+            </span>
+            <span className="block text-xs text-slate-400">{option.hint}</span>
+          </button>
+        ))}
+      </div>
+    </details>
+  );
+};
@@ -1,8 +1,16 @@
-import React from "react";
-import { LocationAnalysis } from "../types";
+import React, { useEffect, useMemo, useState } from "react";
+import { LocateCategory, LocationAnalysis } from "../types";
+import { PIE_COLOR } from "../constants";
+import { LocatePie } from "./LocateCharts";
+import { LandmarkIcon } from "./LandmarkIcon";
+import { EvidenceBadges, WhyThisScore } from "./ScoreEvidence";
+import { DEFAULT_GRADE_BANDS, applyScoringProfile, getScoringProfile } from "../shared/scoring";
 
 interface ScoreDisplayProps {
   data: LocationAnalysis;
+  /** Index in `nearbyLandmarks`; names can repeat. */
+  selectedLandmark?: number | null;
+  onSelectLandmark?: (index: number) => void;
 }
 
 const getGradeClass = (grade: string) => {
@@ -21,103 +29,72 @@ const getCodeBadge = (code: string) => {
   return "bg-amber-600 text-white";
 };
 
-const PIE_COLOR: Record<string, string> = {
-  L: "#0f172a",
-  O: "#1d4ed8",
-  C: "#4338ca",
-  A: "#0e7490",
-  T: "#047857",
-  E: "#d97706",
-};
+type WhatIfOverrides = Partial<Record<LocateCategory["code"], { score?: number; weight?: number }>>;
 
-const getCoordinatesForPercent = (percent: number) => {
-  const x = Math.cos(2 * Math.PI * percent);
-  const y = Math.sin(2 * Math.PI * percent);
-  return [x, y] as const;
-};
+const WEIGHT_SLIDER_MAX = 400;
+const WEIGHT_SLIDER_STEP = 10;
 
-const LandmarkIcon: React.FC<{ category: string }> = ({ category }) => {
-  const c = category.toLowerCase();
-  const baseClass = "w-5 h-5";
+const getLandmarkCardId = (index: number) => `landmark-${index}`;
 
-  if (c.includes("metro")) {
-    return (
-      <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className={baseClass}>
-        <rect x="4" y="3" width="16" height="14" rx="2" />
-        <path d="M8 17l-2 4M16 17l2 4M7 11h10M9 7h1M14 7h1" />
-      </svg>
-    );
-  }
-  if (c.includes("hospital")) {
-    return (
-      <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className={baseClass}>
-        <rect x="3" y="4" width="18" height="16" rx="2" />
-        <path d="M12 8v8M8 12h8" />
-      </svg>
-    );
-  }
-  if (c.includes("school") || c.includes("university")) {
-    return (
-      <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className={baseClass}>
-        <path d="M2 10l10-5 10 5-10 5-10-5z" />
-        <path d="M6 12v5c0 2 2 3 6 3s6-1 6-3v-5" />
-      </svg>
-    );
-  }
-  if (c.includes("mall")) {
-    return (
-      <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className={baseClass}>
-        <path d="M6 8h12l-1 12H7L6 8zM9 8V6a3 3 0 116 0v2" />
-      </svg>
-    );
-  }
-  if (c.includes("airport")) {
-    return (
-      <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className={baseClass}>
-        <path d="M2 19h20M10 19l2-7M12 12l9-4-1-2-8 2-2-5-2 1 1 5-6 2 1 2 7-1" />
-      </svg>
-    );
-  }
-  if (c.includes("park")) {
-    return (
-      <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className={baseClass}>
-        <path d="M12 22V12M7 12a5 5 0 0110 0M9 8a3 3 0 116 0" />
-      </svg>
-    );
-  }
-  if (c.includes("railway")) {
-    return (
-      <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className={baseClass}>
-        <rect x="5" y="3" width="14" height="14" rx="2" />
-        <path d="M8 17l-2 4M16 17l2 4M8 8h.01M16 8h.01M8 12h8" />
-      </svg>
-    );
-  }
-  if (c.includes("it")) {
-    return (
-      <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className={baseClass}>
-        <rect x="3" y="4" width="18" height="14" rx="2" />
-        <path d="M8 20h8M10 18v2M14 18v2" />
-      </svg>
-    );
-  }
+/**
+ * Re-scores a report with analyst overrides. Score overrides are in the report's
+ * own category units; weight overrides replace category maxima and go through
+ * the same normalisation and grade bands the server uses for scoring profiles.
+ */
+const applyWhatIf = (data: LocationAnalysis, overrides: WhatIfOverrides): LocationAnalysis => {
+  if (Object.keys(overrides).length === 0) return data;
 
-  return (
-    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className={baseClass}>
-      <path d="M12 22s7-6 7-12a7 7 0 10-14 0c0 6 7 12 7 12z" />
-      <circle cx="12" cy="10" r="2.5" />
-    </svg>
-  );
+  const profile = getScoringProfile(data.summary.profileId);
+  const adjusted = {
+    ...data,
+    categories: data.categories.map((category) => ({
+      ...category,
+      score: overrides[category.code]?.score ?? category.score,
+    })),
+  };
+  const weights = Object.fromEntries(
+    data.categories.map((category) => [category.code, overrides[category.code]?.weight ?? category.maxScore]),
+  ) as Record<LocateCategory["code"], number>;
+
+  const rescored = applyScoringProfile(adjusted, {
+    id: profile?.id || "custom",
+    name: profile?.name || "Custom",
+    description: "",
+    weights,
+    gradeBands: profile?.gradeBands || DEFAULT_GRADE_BANDS,
+  });
+  return { ...rescored, summary: { ...rescored.summary, profile: data.summary.profile, profileId: data.summary.profileId } };
 };
 
-export const ScoreDisplay: React.FC<ScoreDisplayProps> = ({ data }) => {
-  const pct = Math.max(0, Math.min(100, (data.summary.totalScore / 1000) * 100));
-  const pieData = data.categories.map((c) => ({
-    code: c.code,
-    value: c.score,
-    color: PIE_COLOR[c.code] || "#64748b",
-  }));
-  const pieTotal = pieData.reduce((sum, item) => sum + item.value, 0) || 1;
+export const ScoreDisplay: React.FC<ScoreDisplayProps> = ({ data, selectedLandmark, onSelectLandmark }) => {
+  const [isWhatIfOpen, setIsWhatIfOpen] = useState(false);
+  const [overrides, setOverrides] = useState<WhatIfOverrides>({});
+  const view = useMemo(() => applyWhatIf(data, overrides), [data, overrides]);
+  const isModified = Object.keys(overrides).length > 0;
+
+  useEffect(() => {
+    setOverrides({});
+  }, [data]);
+
+  useEffect(() => {
+    if (selectedLandmark === null || selectedLandmark === undefined) return;
+    document
+      .getElementById(getLandmarkCardId(selectedLandmark))
+      ?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  }, [selectedLandmark]);
+
+  const setOverride = (code: LocateCategory["code"], field: "score" | "weight", value: number) => {
+    setOverrides((prev) => {
+      // All-zero weights cannot be normalised, so the last non-zero weight stops one step above zero.
+      const otherWeights = data.categories
+        .filter((category) => category.code !== code)
+        .reduce((sum, category) => sum + (prev[category.code]?.weight ?? category.maxScore), 0);
+      const next = field === "weight" && otherWeights <= 0 ? Math.max(WEIGHT_SLIDER_STEP, value) : value;
+      return { ...prev, [code]: { ...prev[code], [field]: next } };
+    });
+  };
+
+  const pct = Math.max(0, Math.min(100, (view.summary.totalScore / 1000) * 100));
   const getLandmarkNote = (name: string, category: string) => {
     const locality = data.localityName;
     const city = data.cityName;
@@ -152,52 +129,65 @@ export const ScoreDisplay: React.FC<ScoreDisplayProps> = ({ data }) => {
 
   return (
     <div className="space-y-8 mb-12">
+      {data.provenance?.degraded && (
+        <div role="status" className="rounded-2xl border border-amber-200 bg-amber-50 px-5 py-4 text-sm text-amber-800">
+          <p className="font-bold">
+            {data.provenance.generator === "offline" ? "Offline estimate" : "Partially generated report"}
+          </p>
+          <p className="mt-1">
+            {data.provenance.reason || "Parts of this report use fallback content."}{" "}
+            Sections marked Generic default are placeholder text. This report is not cached, so the next search asks the model again.
+          </p>
+        </div>
+      )}
       <div className="bg-white p-8 rounded-3xl border border-slate-200 shadow-sm">
         <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-8">
           <div className="min-w-0 max-w-3xl">
             <p className="text-xs font-black tracking-[0.2em] text-slate-400 uppercase">LOCATE Score</p>
             <h3 className="text-5xl font-black tracking-tight text-slate-900 mt-2">
-              {data.summary.totalScore}
+              {view.summary.totalScore}
               <span className="text-2xl text-slate-400"> / 1000</span>
+              {isModified && (
+                <span className="ml-3 align-middle inline-flex px-3 py-1 rounded-full bg-amber-50 border border-amber-200 text-xs font-black uppercase tracking-widest text-amber-700">
+                  Modified
+                </span>
+              )}
             </h3>
             <p className="text-slate-600 mt-3 max-w-3xl">{data.summary.headlineVerdict}</p>
-            <div className={`mt-4 inline-flex px-5 py-2 rounded-full border text-sm font-black tracking-widest uppercase ${getGradeClass(data.summary.grade)}`}>
-              {data.summary.grade} - {data.summary.gradeLabel}
+            <div className={`mt-4 inline-flex px-5 py-2 rounded-full border text-sm font-black tracking-widest uppercase ${getGradeClass(view.summary.grade)}`}>
+              {view.summary.grade} - {view.summary.gradeLabel}
+            </div>
+            {data.summary.profile && (
+              <p className="text-xs font-semibold text-slate-400 mt-2">Weighted with the {data.summary.profile} scoring profile</p>
+            )}
+            <div className="flex flex-wrap items-center gap-3 mt-4">
+              <button
+                onClick={() => setIsWhatIfOpen((open) => !open)}
+                className="text-xs font-black uppercase tracking-widest text-blue-600 hover:text-blue-700"
+              >
+                {isWhatIfOpen ? "Hide What-If" : "What-If Analysis"}
+              </button>
+              {isModified && (
+                <button
+                  onClick={() => setOverrides({})}
+                  className="text-xs font-black uppercase tracking-widest text-slate-400 hover:text-slate-600 underline"
+                >
+                  Reset to Report ({data.summary.totalScore}, {data.summary.grade})
+                </button>
+              )}
             </div>
           </div>
 
           <div className="w-full lg:w-[360px] shrink-0 rounded-2xl border border-slate-200 bg-slate-50/70 p-4">
             <div className="flex items-center gap-4">
               <div className="relative">
-                <svg className="w-32 h-32 -rotate-90" viewBox="-1 -1 2 2" aria-label="LOCATE category distribution">
-                {(() => {
-                  let cumulativePercent = 0;
-                  return pieData.map((slice) => {
-                    const [startX, startY] = getCoordinatesForPercent(cumulativePercent);
-                    cumulativePercent += slice.value / pieTotal;
-                    const [endX, endY] = getCoordinatesForPercent(cumulativePercent);
-                    const largeArcFlag = slice.value / pieTotal > 0.5 ? 1 : 0;
-                    const pathData = [
-                      `M ${startX} ${startY}`,
-                      `A 1 1 0 ${largeArcFlag} 1 ${endX} ${endY}`,
-                      "L 0 0",
-                    ].join(" ");
-
-                    return (
-                      <path key={slice.code} d={pathData} fill={slice.color}>
-                        <title>{`${slice.code}: ${slice.value} (${Math.round((slice.value / pieTotal) * 100)}%)`}</title>
-                      </path>
-                    );
-                  });
-                })()}
-                  <circle cx="0" cy="0" r="0.56" fill="#ffffff" />
-                </svg>
+                <LocatePie categories={view.categories} />
                 <div className="absolute inset-0 flex items-center justify-center">
                   <span className="text-xs font-black tracking-widest text-slate-500">LOCATE</span>
                 </div>
               </div>
               <div className="grid grid-cols-2 gap-x-3 gap-y-1">
-                {data.categories.map((cat) => (
+                {view.categories.map((cat) => (
                   <div key={`legend-${cat.code}`} className="flex items-center gap-1.5">
                     <span className="inline-block w-2.5 h-2.5 rounded-full" style={{ backgroundColor: PIE_COLOR[cat.code] || "#64748b" }}></span>
                     <span className="text-[11px] font-bold text-slate-600">
@@ -215,8 +205,10 @@ export const ScoreDisplay: React.FC<ScoreDisplayProps> = ({ data }) => {
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        {data.categories.map((category) => {
-          const categoryPct = Math.max(0, Math.min(100, (category.score / category.maxScore) * 100));
+        {view.categories.map((category) => {
+          const categoryPct =
+            category.maxScore > 0 ? Math.max(0, Math.min(100, (category.score / category.maxScore) * 100)) : 0;
+          const original = data.categories.find((c) => c.code === category.code) || category;
           return (
             <div key={category.code} className="bg-white p-6 rounded-3xl border border-slate-200 shadow-sm">
               <div className="flex items-start justify-between gap-4 mb-4">
@@ -225,6 +217,9 @@ export const ScoreDisplay: React.FC<ScoreDisplayProps> = ({ data }) => {
                     {category.code}
                   </div>
                   <h4 className="text-lg font-bold text-slate-900 mt-3">{category.name}</h4>
+                  <div className="flex flex-wrap gap-1.5 mt-2">
+                    <EvidenceBadges confidence={category.confidence} source={category.source} />
+                  </div>
                 </div>
                 <p className="text-right text-slate-700 font-bold text-sm">
                   {category.score} / {category.maxScore}
@@ -234,11 +229,61 @@ export const ScoreDisplay: React.FC<ScoreDisplayProps> = ({ data }) => {
                 <div className="h-full bg-slate-900 rounded-full" style={{ width: `${categoryPct}%` }}></div>
               </div>
 
+              {isWhatIfOpen && (
+                <div className="rounded-2xl border border-blue-100 bg-blue-50/50 p-4 mb-5 space-y-3">
+                  <label className="block">
+                    <span className="flex justify-between text-xs font-bold text-slate-600">
+                      <span>Score</span>
+                      <span>
+                        {overrides[category.code]?.score ?? original.score} / {original.maxScore}
+                      </span>
+                    </span>
+                    <input
+                      type="range"
+                      min={0}
+                      max={original.maxScore}
+                      value={overrides[category.code]?.score ?? original.score}
+                      onChange={(e) => setOverride(category.code, "score", Number(e.target.value))}
+                      className="w-full accent-blue-600"
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="flex justify-between text-xs font-bold text-slate-600">
+                      <span>Weight (max points before normalising to 1000)</span>
+                      <span>{overrides[category.code]?.weight ?? original.maxScore}</span>
+                    </span>
+                    <input
+                      type="range"
+                      min={0}
+                      max={WEIGHT_SLIDER_MAX}
+                      step={WEIGHT_SLIDER_STEP}
+                      value={overrides[category.code]?.weight ?? original.maxScore}
+                      onChange={(e) => setOverride(category.code, "weight", Number(e.target.value))}
+                      className="w-full accent-blue-600"
+                    />
+                  </label>
+                </div>
+              )}
+
+              <WhyThisScore category={category} />
+
               <div className="space-y-4">
                 {category.sections.map((section, index) => (
                   <div key={`${category.code}-${section.title}-${index}`}>
-                    <h5 className="text-sm font-black uppercase tracking-wide text-slate-700">{section.title}</h5>
-                    <p className="text-sm text-slate-600 mt-1 leading-relaxed">{section.body}</p>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <h5 className="text-sm font-black uppercase tracking-wide text-slate-700">{section.title}</h5>
+                      <EvidenceBadges
+                        confidence={section.confidence}
+                        source={section.source !== category.source ? section.source : undefined}
+                      />
+                    </div>
+                    <p
+                      className={`text-sm mt-1 leading-relaxed ${
+                        section.source === "default" ? "italic text-slate-400 border-l-2 border-dashed border-slate-300 pl-3" : "text-slate-600"
+                      }`}
+                    >
+                      {section.body}
+                    </p>
                   </div>
                 ))}
               </div>
@@ -253,7 +298,16 @@ export const ScoreDisplay: React.FC<ScoreDisplayProps> = ({ data }) => {
           {data.nearbyLandmarks && data.nearbyLandmarks.length > 0 ? (
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 mt-4">
               {data.nearbyLandmarks.map((item, idx) => (
-                <div key={`landmark-${idx}`} className="rounded-xl border border-slate-200 bg-slate-50 px-4 py-3">
+                <div
+                  key={`landmark-${idx}`}
+                  id={getLandmarkCardId(idx)}
+                  onClick={() => onSelectLandmark?.(idx)}
+                  className={`rounded-xl border px-4 py-3 transition-colors ${
+                    idx === selectedLandmark
+                      ? "border-blue-400 bg-blue-50 ring-2 ring-blue-200"
+                      : "border-slate-200 bg-slate-50"
+                  } ${onSelectLandmark ? "cursor-pointer" : ""}`}
+                >
                   <div className="flex items-start gap-3">
                     <div className="mt-0.5 w-9 h-9 rounded-lg bg-white border border-slate-200 text-blue-600 flex items-center justify-center shadow-sm">
                       <LandmarkIcon category={item.category} />
@@ -0,0 +1,85 @@
+import React from "react";
+import { EvidenceConfidence, EvidenceSource, LocateCategory, ScoreDriver } from "../types";
+
+const SOURCE_LABEL: Record<EvidenceSource, string> = {
+  model: "Model",
+  "local-data": "Local data",
+  default: "Generic default",
+};
+
+const SOURCE_CLASS: Record<EvidenceSource, string> = {
+  model: "bg-indigo-50 text-indigo-700 border-indigo-200",
+  "local-data": "bg-cyan-50 text-cyan-700 border-cyan-200",
+  default: "bg-slate-100 text-slate-500 border-slate-200",
+};
+
+const CONFIDENCE_CLASS: Record<EvidenceConfidence, string> = {
+  high: "bg-emerald-50 text-emerald-700 border-emerald-200",
+  medium: "bg-amber-50 text-amber-700 border-amber-200",
+  low: "bg-rose-50 text-rose-700 border-rose-200",
+};
+
+const formatPoints = (points: number) => (points > 0 ? `+${points}` : `${points}`);
+
+export const EvidenceBadges: React.FC<{ confidence?: EvidenceConfidence; source?: EvidenceSource }> = ({ confidence, source }) => (
+  <>
+    {source && (
+      <span className={`inline-block px-2 py-0.5 rounded-full border text-[10px] font-bold uppercase tracking-wide ${SOURCE_CLASS[source]}`}>
+        {SOURCE_LABEL[source]}
+      </span>
+    )}
+    {confidence && (
+      <span className={`inline-block px-2 py-0.5 rounded-full border text-[10px] font-bold uppercase tracking-wide ${CONFIDENCE_CLASS[confidence]}`}>
+        {confidence} confidence
+      </span>
+    )}
+  </>
+);
+
+const DriverList: React.FC<{ drivers: ScoreDriver[] }> = ({ drivers }) => (
+  <ul className="space-y-1">
+    {drivers.map((driver, index) => (
+      <li key={`${driver.label}-${index}`} className="flex items-baseline justify-between gap-3 text-xs">
+        <span className="text-slate-600">{driver.label}</span>
+        <span className={`font-black tabular-nums ${driver.points >= 0 ? "text-emerald-700" : "text-rose-700"}`}>
+          {formatPoints(driver.points)}
+        </span>
+      </li>
+    ))}
+  </ul>
+);
+
+/**
+ * Expandable breakdown of the drivers behind a category score. Reports saved
+ * before evidence was recorded have no drivers or source, so nothing renders.
+ */
+export const WhyThisScore: React.FC<{ category: LocateCategory }> = ({ category }) => {
+  const sectionsWithDrivers = category.sections.filter((section) => section.drivers && section.drivers.length > 0);
+  if (!category.source && sectionsWithDrivers.length === 0) return null;
+
+  return (
+    <details className="rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 mb-5">
+      <summary className="cursor-pointer text-sm font-bold text-slate-700">Why this score?</summary>
+      <div className="mt-3 space-y-4">
+        <p className="text-xs text-slate-500 leading-relaxed">
+          Driver points are rough contributions measured from the category midpoint of {Math.round(category.maxScore / 2)}
+          {" "}points; positive factors lift the score above it, negative ones pull it below.
+          {category.source === "default" && " No evidence was available for this category, so its text is a generic default."}
+        </p>
+        {sectionsWithDrivers.length === 0 ? (
+          <p className="text-xs text-slate-500">No individual drivers were recorded for this category.</p>
+        ) : (
+          sectionsWithDrivers.map((section) => (
+            <div key={`${category.code}-why-${section.title}`} className="space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <h6 className="text-xs font-black uppercase tracking-wide text-slate-700">{section.title}</h6>
+                <EvidenceBadges confidence={section.confidence} />
+              </div>
+              <DriverList drivers={section.drivers || []} />
+            </div>
+          ))
+        )}
+      </div>
+    </details>
+  );
+};
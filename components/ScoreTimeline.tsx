@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from "react";
+import { LocateCategory, LocationAnalysis } from "../types";
+import { getReport, listReports } from "../services/locationService";
+import { ReportTimeline, TimelinePoint, buildTimeline } from "../services/reportHistory";
+import { PIE_COLOR } from "../constants";
+
+interface ScoreTimelineProps {
+  city: string;
+  locality: string;
+  /** The report currently on screen; the timeline reloads whenever it changes. */
+  current?: LocationAnalysis;
+  onRerun?: () => void;
+  isRerunning?: boolean;
+}
+
+const MAX_SNAPSHOTS = 12;
+const CATEGORY_CODES: LocateCategory["code"][] = ["L", "O", "C", "A", "T", "E"];
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 180;
+const CHART_PAD = 28;
+
+const getX = (index: number, count: number) =>
+  count <= 1 ? CHART_WIDTH / 2 : CHART_PAD + (index * (CHART_WIDTH - CHART_PAD * 2)) / (count - 1);
+
+const getY = (ratio: number) => CHART_HEIGHT - CHART_PAD - Math.max(0, Math.min(1, ratio)) * (CHART_HEIGHT - CHART_PAD * 2);
+
+const LineChart: React.FC<{
+  points: TimelinePoint[];
+  lines: { key: string; color: string; ratioOf: (point: TimelinePoint) => number; labelOf: (point: TimelinePoint) => string }[];
+  ariaLabel: string;
+}> = ({ points, lines, ariaLabel }) => (
+  <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-44" aria-label={ariaLabel}>
+    {[0, 0.5, 1].map((ratio) => (
+      <line
+        key={`grid-${ratio}`}
+        x1={CHART_PAD}
+        x2={CHART_WIDTH - CHART_PAD}
+        y1={getY(ratio)}
+        y2={getY(ratio)}
+        stroke="#e2e8f0"
+        strokeWidth="1"
+      />
+    ))}
+    {lines.map((line) => (
+      <g key={line.key}>
+        <polyline
+          points={points.map((point, i) => `${getX(i, points.length)},${getY(line.ratioOf(point))}`).join(" ")}
+          fill="none"
+          stroke={line.color}
+          strokeWidth="2"
+        />
+        {points.map((point, i) => (
+          <circle key={`${line.key}-${point.reportId}`} cx={getX(i, points.length)} cy={getY(line.ratioOf(point))} r="3.5" fill={line.color}>
+            <title>{`${point.evaluationDate} - ${line.key}: ${line.labelOf(point)}`}</title>
+          </circle>
+        ))}
+      </g>
+    ))}
+    {points.map((point, i) => (
+      <text key={`date-${point.reportId}`} x={getX(i, points.length)} y={CHART_HEIGHT - 6} fontSize="10" fill="#64748b" textAnchor="middle">
+        {point.evaluationDate}
+      </text>
+    ))}
+  </svg>
+);
+
+export const ScoreTimeline: React.FC<ScoreTimelineProps> = ({ city, locality, current, onRerun, isRerunning }) => {
+  const [timeline, setTimeline] = useState<ReportTimeline | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCurrent = true;
+    setLoadError(null);
+
+    const load = async () => {
+      try {
+        const summaries = (await listReports(city, locality)).slice(0, MAX_SNAPSHOTS);
+        const snapshots: LocationAnalysis[] = await Promise.all(summaries.map((summary) => getReport(summary.reportId, current?.summary.profileId)));
+        if (isCurrent) setTimeline(buildTimeline(snapshots));
+      } catch (error) {
+        if (isCurrent) setLoadError(error instanceof Error ? error.message : "Unable to load report history.");
+      }
+    };
+
+    load();
+    return () => {
+      isCurrent = false;
+    };
+  }, [city, locality, current]);
+
+  if (loadError) {
+    return (
+      <div className="bg-white p-6 rounded-3xl border border-slate-200 shadow-sm mb-12 text-sm text-slate-500">
+        Score history is unavailable: {loadError}
+      </div>
+    );
+  }
+
+  if (!timeline) return null;
+
+  const { points, gradeTransitions, sectionChanges } = timeline;
+
+  return (
+    <div className="bg-white p-8 rounded-3xl border border-slate-200 shadow-sm mb-12 space-y-8">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <p className="text-xs font-black tracking-[0.2em] text-slate-400 uppercase">Score Timeline</p>
+          <h4 className="text-lg font-bold text-slate-900 mt-1">
+            {points.length} evaluation{points.length === 1 ? "" : "s"} on record for {locality}
+          </h4>
+        </div>
+        {onRerun && (
+          <button
+            onClick={onRerun}
+            disabled={isRerunning}
+            className="self-start md:self-auto bg-white border border-slate-200 hover:border-blue-300 hover:bg-blue-50 text-slate-700 font-bold px-5 py-2.5 rounded-xl shadow-sm transition-all disabled:opacity-50"
+          >
+            {isRerunning ? "Re-running..." : "Re-run Evaluation"}
+          </button>
+        )}
+      </div>
+
+      {points.length < 2 ? (
+        <p className="text-sm text-slate-500">
+          Only one evaluation is stored for this locality. Re-run it on a later date to start tracking score movement.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="rounded-2xl border border-slate-200 bg-slate-50/70 p-4">
+              <h5 className="text-sm font-black uppercase tracking-wide text-slate-700 mb-2">Total Score</h5>
+              <LineChart
+                points={points}
+                ariaLabel="Total LOCATE score over time"
+                lines={[
+                  {
+                    key: "Total",
+                    color: "#0f172a",
+                    ratioOf: (point) => point.totalScore / 1000,
+                    labelOf: (point) => `${point.totalScore} (${point.grade})`,
+                  },
+                ]}
+              />
+            </div>
+            <div className="rounded-2xl border border-slate-200 bg-slate-50/70 p-4">
+              <h5 className="text-sm font-black uppercase tracking-wide text-slate-700 mb-2">Category Score vs Max</h5>
+              <LineChart
+                points={points}
+                ariaLabel="LOCATE category scores over time"
+                lines={CATEGORY_CODES.map((code) => ({
+                  key: code,
+                  color: PIE_COLOR[code],
+                  ratioOf: (point) => {
+                    const cat = point.categories[code];
+                    return cat && cat.maxScore > 0 ? cat.score / cat.maxScore : 0;
+                  },
+                  labelOf: (point) => {
+                    const cat = point.categories[code];
+                    return cat ? `${cat.score} / ${cat.maxScore}` : "-";
+                  },
+                }))}
+              />
+              <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2">
+                {CATEGORY_CODES.map((code) => (
+                  <div key={`timeline-legend-${code}`} className="flex items-center gap-1.5">
+                    <span className="inline-block w-2.5 h-2.5 rounded-full" style={{ backgroundColor: PIE_COLOR[code] }}></span>
+                    <span className="text-[11px] font-bold text-slate-600">{code}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <h5 className="text-sm font-black uppercase tracking-wide text-slate-700">Grade Transitions</h5>
+            {gradeTransitions.length > 0 ? (
+              <ul className="mt-2 space-y-2 text-sm text-slate-600">
+                {gradeTransitions.map((item) => (
+                  <li key={`grade-${item.toDate}`} className="flex items-center gap-2">
+                    <span className={`font-black ${item.direction === "up" ? "text-emerald-600" : "text-rose-600"}`}>
+                      {item.from} &rarr; {item.to}
+                    </span>
+                    <span className="text-slate-400">
+                      {item.fromDate} to {item.toDate}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-slate-500 mt-2">Grade has held steady at {points[points.length - 1].grade}.</p>
+            )}
+          </div>
+
+          <div>
+            <h5 className="text-sm font-black uppercase tracking-wide text-slate-700">Changed Sections</h5>
+            {sectionChanges.length > 0 ? (
+              <div className="mt-2 space-y-2">
+                {sectionChanges.map((change) => (
+                  <details key={`${change.toDate}-${change.code}-${change.title}`} className="rounded-xl border border-slate-200 bg-slate-50 px-4 py-3">
+                    <summary className="cursor-pointer text-sm font-bold text-slate-700">
+                      {change.code} - {change.title}
+                      <span className="ml-2 text-xs font-semibold text-slate-400">{change.toDate}</span>
+                    </summary>
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mt-3 text-sm">
+                      <div>
+                        <p className="text-xs font-black uppercase tracking-wide text-slate-400">{change.fromDate}</p>
+                        <p className="text-slate-500 mt-1 leading-relaxed">{change.before || "Not present."}</p>
+                      </div>
+                      <div>
+                        <p className="text-xs font-black uppercase tracking-wide text-slate-400">{change.toDate}</p>
+                        <p className="text-slate-700 mt-1 leading-relaxed">{change.after}</p>
+                      </div>
+                    </div>
+                  </details>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-slate-500 mt-2">No section text changed between evaluations.</p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
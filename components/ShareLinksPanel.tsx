@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from "react";
+import { ShareLink } from "../types";
+import { createShareLink, listShareLinks, revokeShareLink } from "../services/locationService";
+import { getSharePath, toAbsoluteUrl } from "../services/permalinks";
+
+interface ShareLinksPanelProps {
+  reportId: string;
+  profileId: string;
+}
+
+const EXPIRY_OPTIONS = [1, 7, 30, 90];
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString(undefined, { day: "numeric", month: "short", year: "numeric" });
+
+const getShareState = (share: ShareLink) => {
+  if (share.revokedAt) return { label: "Revoked", tone: "text-slate-400" };
+  if (Date.parse(share.expiresAt) < Date.now()) return { label: "Expired", tone: "text-amber-600" };
+  return { label: `Expires ${formatDate(share.expiresAt)}`, tone: "text-emerald-700" };
+};
+
+/** Creates read-only client links for a saved report and lists them with their views. */
+export const ShareLinksPanel: React.FC<ShareLinksPanelProps> = ({ reportId, profileId }) => {
+  const [shares, setShares] = useState<ShareLink[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState(7);
+  const [isCreating, setIsCreating] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCurrent = true;
+    setShares([]);
+    listShareLinks(reportId)
+      .then((next) => isCurrent && setShares(next))
+      .catch((error) => isCurrent && setErrorMessage(error instanceof Error ? error.message : "Unable to load share links."));
+    return () => {
+      isCurrent = false;
+    };
+  }, [reportId]);
+
+  const copyLink = async (share: ShareLink) => {
+    const url = toAbsoluteUrl(getSharePath(share.token));
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopiedId(share.shareId);
+    } catch {
+      window.prompt("Copy this link:", url);
+    }
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setErrorMessage(null);
+    try {
+      const share = await createShareLink(reportId, profileId, expiresInDays);
+      setShares((prev) => [share, ...prev]);
+      await copyLink(share);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Unable to create a share link.");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (shareId: string) => {
+    try {
+      const revoked = await revokeShareLink(shareId);
+      setShares((prev) => prev.map((share) => (share.shareId === shareId ? revoked : share)));
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : "Unable to revoke the share link.");
+    }
+  };
+
+  return (
+    <div className="mt-8 bg-white p-8 rounded-3xl border border-slate-200 shadow-sm space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div className="max-w-2xl">
+          <p className="text-xs font-black tracking-[0.2em] text-slate-400 uppercase">Client Links</p>
+          <h3 className="text-2xl font-bold text-slate-900 mt-1">Share this report read-only</h3>
+          <p className="text-sm text-slate-500 mt-1">
+            Recipients see this report version and its map, without search or exports. Links stop working when they expire or are revoked.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={expiresInDays}
+            onChange={(e) => setExpiresInDays(Number(e.target.value))}
+            className="bg-white border border-slate-200 text-slate-700 font-bold px-4 py-2.5 rounded-xl shadow-sm"
+          >
+            {EXPIRY_OPTIONS.map((days) => (
+              <option key={days} value={days}>
+                Expires in {days} day{days === 1 ? "" : "s"}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleCreate}
+            disabled={isCreating}
+            className="bg-blue-600 hover:bg-blue-700 text-white font-bold px-5 py-2.5 rounded-xl shadow-sm transition-all disabled:opacity-50"
+          >
+            {isCreating ? "Creating..." : "Create & Copy Link"}
+          </button>
+        </div>
+      </div>
+
+      {errorMessage && (
+        <div className="rounded-2xl border border-rose-200 bg-rose-50 px-4 py-3 text-sm font-semibold text-rose-700">{errorMessage}</div>
+      )}
+
+      {shares.length > 0 && (
+        <ul className="divide-y divide-slate-100">
+          {shares.map((share) => {
+            const state = getShareState(share);
+            const isActive = !share.revokedAt && Date.parse(share.expiresAt) >= Date.now();
+            return (
+              <li key={share.shareId} className="flex flex-col md:flex-row md:items-center justify-between gap-3 py-3 text-sm">
+                <div>
+                  <span className="font-bold text-slate-800">Created {formatDate(share.createdAt)}</span>
+                  <span className={`ml-3 text-xs font-bold ${state.tone}`}>{state.label}</span>
+                  <span className="block text-xs text-slate-500">
+                    {share.views} view{share.views === 1 ? "" : "s"}
+                    {share.lastViewedAt && `, last on ${formatDate(share.lastViewedAt)}`}
+                  </span>
+                </div>
+                {isActive && (
+                  <div className="flex items-center gap-4">
+                    <button onClick={() => copyLink(share)} className="text-blue-600 font-bold hover:underline">
+                      {copiedId === share.shareId ? "Copied" : "Copy link"}
+                    </button>
+                    <button onClick={() => handleRevoke(share.shareId)} className="text-slate-400 hover:text-slate-600 underline transition-colors">
+                      Revoke
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
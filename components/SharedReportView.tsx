@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from "react";
+import { Navbar } from "./Navbar";
+import { ScoreDisplay } from "./ScoreDisplay";
+import { DemoMap } from "./DemoMap";
+import { Footer } from "./Footer";
+import { SharedReport } from "../types";
+import { getSharedReport, isAbortError } from "../services/locationService";
+
+interface SharedReportViewProps {
+  token: string;
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString(undefined, { day: "numeric", month: "short", year: "numeric" });
+
+/** Read-only page behind a `/s/<token>` share link: the report and map, without search or tools. */
+export const SharedReportView: React.FC<SharedReportViewProps> = ({ token }) => {
+  const [shared, setShared] = useState<SharedReport | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [selectedLandmark, setSelectedLandmark] = useState<number | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setShared(null);
+    setErrorMessage(null);
+
+    getSharedReport(token, controller.signal)
+      .then(setShared)
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        setErrorMessage(error instanceof Error ? error.message : "Unable to load this report.");
+      });
+    return () => controller.abort();
+  }, [token]);
+
+  const report = shared?.report;
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <Navbar />
+
+      <main className="max-w-7xl mx-auto pt-16">
+        {errorMessage && (
+          <div className="max-w-2xl mx-auto px-4 py-24 text-center">
+            <h2 className="text-2xl font-bold text-slate-900 mb-2">This report is unavailable</h2>
+            <p className="text-slate-500">{errorMessage} Ask the sender for a new link.</p>
+          </div>
+        )}
+
+        {!report && !errorMessage && <p className="px-4 py-24 text-center text-sm font-semibold text-slate-400">Loading report...</p>}
+
+        {report && shared && (
+          <div className="px-4 py-12">
+            <div className="mb-10 max-w-3xl">
+              <p className="text-xs font-black tracking-[0.2em] text-slate-400 uppercase">Shared Report - Read Only</p>
+              <h2 className="text-3xl font-bold text-slate-900 mt-1 mb-2">
+                LOCATE Score for {report.localityName}, <span className="text-blue-600">{report.cityName}</span>
+              </h2>
+              <p className="text-sm text-slate-500">
+                Evaluated {report.evaluationDate}
+                {report.summary.profile && ` with the ${report.summary.profile} profile`}. This link expires on{" "}
+                {formatDate(shared.share.expiresAt)}.
+              </p>
+            </div>
+
+            <ScoreDisplay data={report} selectedLandmark={selectedLandmark} onSelectLandmark={setSelectedLandmark} />
+            <DemoMap
+              city={report.cityName}
+              sector={report.localityName}
+              geo={report.geo}
+              landmarks={report.nearbyLandmarks}
+              selectedLandmark={selectedLandmark}
+              onSelectLandmark={setSelectedLandmark}
+            />
+          </div>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
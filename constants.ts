@@ -0,0 +1,12 @@
+/** Colour of each LOCATE category, shared by the charts and the PDF report. */
+export const PIE_COLOR: Record<string, string> = {
+  L: "#0f172a",
+  O: "#1d4ed8",
+  C: "#4338ca",
+  A: "#0e7490",
+  T: "#047857",
+  E: "#d97706",
+};
+
+/** Colours of compared localities, in selection order. */
+export const SERIES_COLOR = ["#2563eb", "#059669", "#d97706", "#db2777", "#7c3aed"];
@@ -1,14 +1,17 @@
-
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { SharedReportView } from './components/SharedReportView';
+import { parseShareToken } from './services/permalinks';
 
 const rootElement = document.getElementById('root');
 if (rootElement) {
   const root = ReactDOM.createRoot(rootElement);
+  // Share links open a read-only page instead of the tool.
+  const shareToken = parseShareToken(window.location.pathname);
   root.render(
     <React.StrictMode>
-      <App />
+      {shareToken ? <SharedReportView token={shareToken} /> : <App />}
     </React.StrictMode>
   );
 }
\ No newline at end of file
@@ -0,0 +1,118 @@
+/**
+ * Runs validation -> ambiguity -> analysis -> landmark verification for Baner,
+ * Pune against the recorded replies in `server/fixtures/llm`, with no network
+ * access. Starts the API server with the `mock` provider and in-memory stores,
+ * and exits non-zero when any step fell back instead of replaying its fixture.
+ * Run with `npm run check:pipeline`; re-record the fixtures with
+ * `LLM_RECORD=true` after changing a prompt.
+ */
+import { spawn } from "child_process";
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import { hashApiKey } from "../server/auth.js";
+import { parse } from "../shared/schema.js";
+import { LocationAnalysisSchema } from "../shared/reportSchema.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const SERVER_PATH = path.resolve(__dirname, "../server/server.js");
+const PORT = Number(process.env.PIPELINE_CHECK_PORT) || 4610;
+const BASE_URL = `http://localhost:${PORT}/api/v1`;
+const CITY = "Pune";
+const LOCALITY = "Baner";
+const STARTUP_TIMEOUT_MS = 15000;
+
+// A throwaway key, so the usage ledger attributes the model calls to this run.
+const apiKey = crypto.randomBytes(16).toString("hex");
+const keysDir = fs.mkdtempSync(path.join(os.tmpdir(), "locate-pipeline-"));
+const keysFile = path.join(keysDir, "api-keys.json");
+fs.writeFileSync(keysFile, JSON.stringify({ keys: [{ id: "pipeline-check", workspace: "pipeline-check", sha256: hashApiKey(apiKey) }] }));
+
+const server = spawn(process.execPath, [SERVER_PATH], {
+  env: {
+    ...process.env,
+    PORT: String(PORT),
+    LLM_PROVIDER: "mock",
+    LLM_RECORD: "false",
+    REPORT_STORE: "memory",
+    GEOCODER: "gazetteer",
+    API_KEYS_FILE: keysFile,
+  },
+  stdio: ["ignore", "pipe", "pipe"],
+});
+let serverLog = "";
+server.stdout.on("data", (chunk) => (serverLog += chunk));
+server.stderr.on("data", (chunk) => (serverLog += chunk));
+
+const waitForServer = () =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error("The API server did not start in time.")), STARTUP_TIMEOUT_MS);
+    const onData = () => {
+      if (!serverLog.includes("API server listening")) return;
+      clearTimeout(timer);
+      resolve();
+    };
+    server.stdout.on("data", onData);
+    server.once("exit", (code) => {
+      clearTimeout(timer);
+      reject(new Error(`The API server exited with code ${code}.`));
+    });
+  });
+
+const call = async (method, route, body) => {
+  const response = await fetch(`${BASE_URL}${route}`, {
+    method,
+    headers: { Authorization: `Bearer ${apiKey}`, ...(body ? { "Content-Type": "application/json" } : {}) },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const payload = await response.json();
+  if (!response.ok) throw new Error(`${method} ${route} answered ${response.status}: ${payload?.error || "no error message"}`);
+  return payload;
+};
+
+const failures = [];
+const check = (condition, message) => {
+  console.log(`${condition ? "ok  " : "FAIL"} ${message}`);
+  if (!condition) failures.push(message);
+};
+
+const run = async () => {
+  await waitForServer();
+  const input = { city: CITY, locality: LOCALITY };
+
+  const validation = await call("POST", "/validate", input);
+  check(validation.isValid === true && !/unavailable|skipped/i.test(validation.reason), `validation replayed: ${validation.reason}`);
+
+  const ambiguity = await call("POST", "/ambiguity", input);
+  check(ambiguity.isAmbiguous === false, "ambiguity check replayed");
+
+  const reply = await call("POST", "/analyze", { ...input, waitMs: 60000 });
+  check(reply.status === "done", `analysis finished with status "${reply.status}"`);
+  const report = parse(LocationAnalysisSchema, reply.result, { label: "The analysed report" });
+  check(report.provenance?.generator === "model" && !report.provenance.degraded, `report came from the model replay (${report.provenance?.reason || "not degraded"})`);
+  check(report.categories.length === 6 && report.provenance.defaultSections === 0, "all six categories have model-written sections");
+  check(report.nearbyLandmarks.length > 0, `landmark verification kept ${report.nearbyLandmarks.length} landmarks`);
+
+  const usage = await call("GET", "/usage");
+  const totals = usage.byKey["pipeline-check"] || {};
+  // The analysis repeats validation and ambiguity, so six calls in all.
+  check(totals.modelCalls === 6 && totals.failedModelCalls === 0, `${totals.modelCalls} model calls replayed, ${totals.failedModelCalls} failed`);
+};
+
+try {
+  await run();
+} catch (error) {
+  failures.push(error.message);
+  console.error(error.message);
+} finally {
+  server.kill();
+  fs.rmSync(keysDir, { recursive: true, force: true });
+}
+
+if (failures.length > 0) {
+  console.error(`\n${failures.length} check(s) failed. Server log:\n${serverLog}`);
+  process.exit(1);
+}
+console.log("\nPipeline replayed from fixtures.");
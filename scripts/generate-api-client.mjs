@@ -0,0 +1,212 @@
+/**
+ * Writes `services/apiClient.ts` from the OpenAPI document in
+ * `server/openapi.js`. Run with `npm run generate:api-client` after changing
+ * the API. Supports the subset of OpenAPI the document uses: JSON request
+ * bodies, path and query parameters, and `$ref`, `allOf`, `enum`, `nullable`,
+ * arrays, objects and maps in schemas.
+ */
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { API_V1_PREFIX, openApiDocument } from "../server/openapi.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const OUTPUT_PATH = path.resolve(__dirname, "../services/apiClient.ts");
+const SUCCESS_CODES = ["200", "201", "202"];
+
+const schemas = openApiDocument.components.schemas;
+
+const refName = (ref) => ref.split("/").pop();
+const isIdentifier = (name) => /^[A-Za-z_$][\w$]*$/.test(name);
+const MAX_INLINE_LENGTH = 72;
+
+/** TypeScript for a schema; nested object members are indented one level past `pad`. */
+const toType = (schema, pad = "") => {
+  if (!schema) return "unknown";
+  const withNull = (type) => (schema.nullable ? `${type} | null` : type);
+
+  if (schema.$ref) return refName(schema.$ref);
+  if (schema.allOf) return withNull(schema.allOf.map((part) => toType(part, pad)).join(" & "));
+  if (schema.enum) return withNull(schema.enum.map((value) => JSON.stringify(value)).join(" | "));
+
+  switch (schema.type) {
+    case "string":
+      return withNull("string");
+    case "number":
+    case "integer":
+      return withNull("number");
+    case "boolean":
+      return withNull("boolean");
+    case "array": {
+      const item = toType(schema.items, pad);
+      return withNull(/^[\w.]+$/.test(item) ? `${item}[]` : `Array<${item}>`);
+    }
+    case "object":
+      return withNull(toObjectType(schema, pad));
+    default:
+      return "unknown";
+  }
+};
+
+/** Short members without docs stay on one line, except at the top level. */
+const toObjectType = (schema, pad) => {
+  const properties = Object.entries(schema.properties || {});
+  if (properties.length === 0) {
+    const values = schema.additionalProperties && schema.additionalProperties !== true ? toType(schema.additionalProperties, pad) : "unknown";
+    return `Record<string, ${values}>`;
+  }
+
+  const required = new Set(schema.required || []);
+  const inner = `${pad}  `;
+  const members = properties.map(([name, property]) => ({
+    description: property.description,
+    text: `${isIdentifier(name) ? name : JSON.stringify(name)}${required.has(name) ? "" : "?"}: ${toType(property, inner)}`,
+  }));
+  if (schema.additionalProperties) members.push({ text: "[key: string]: unknown" });
+
+  const oneLine = `{ ${members.map((member) => member.text).join("; ")} }`;
+  if (pad && oneLine.length <= MAX_INLINE_LENGTH && !oneLine.includes("\n") && members.every((member) => !member.description)) {
+    return oneLine;
+  }
+  const lines = members.flatMap((member) => [
+    ...(member.description ? [`${inner}/** ${member.description} */`] : []),
+    `${inner}${member.text};`,
+  ]);
+  return `{\n${lines.join("\n")}\n${pad}}`;
+};
+
+const toDeclaration = (name, schema) => {
+  const type = toType(schema);
+  const body = type.startsWith("{") ? `export interface ${name} ${type}` : `export type ${name} = ${type};`;
+  return `${schema.description ? `/** ${schema.description} */\n` : ""}${body}`;
+};
+
+const toCamel = (value) => value.replace(/-(\w)/g, (_, letter) => letter.toUpperCase());
+
+const OPERATION_PAD = "    ";
+
+const toOperation = (route, method, operation) => {
+  const parameters = operation.parameters || [];
+  const queryParams = parameters.filter((param) => param.in === "query");
+  const bodySchema = operation.requestBody?.content?.["application/json"]?.schema;
+  const success = SUCCESS_CODES.map((code) => operation.responses[code]).find(Boolean);
+  const isStream = !!success?.content?.["text/event-stream"];
+  const resultType = toType(success?.content?.["application/json"]?.schema, `${OPERATION_PAD}  `);
+
+  // Path and query parameters and the JSON body travel in one `params` object.
+  const paramsSchema = {
+    type: "object",
+    properties: Object.fromEntries([
+      ...parameters.map((param) => [toCamel(param.name), { ...param.schema, description: param.description }]),
+      ...(bodySchema ? [["body", bodySchema]] : []),
+    ]),
+    required: [...parameters.filter((param) => param.required).map((param) => toCamel(param.name)), ...(bodySchema ? ["body"] : [])],
+  };
+  const hasParams = Object.keys(paramsSchema.properties).length > 0;
+  const allOptional = paramsSchema.required.length === 0;
+  const paramsArg = hasParams ? `params: ${toType(paramsSchema, OPERATION_PAD)}${allOptional ? " = {}" : ""}` : "";
+
+  const pathExpression = `\`${route.replace(/\{(\w+)\}/g, (_, name) => `\${encodeURIComponent(params.${toCamel(name)})}`)}\``;
+  const query =
+    queryParams.length > 0
+      ? `{ ${queryParams.map((param) => `${isIdentifier(param.name) ? param.name : JSON.stringify(param.name)}: params.${toCamel(param.name)}`).join(", ")} }`
+      : "{}";
+  const summary = `${OPERATION_PAD}/** ${operation.summary} */\n`;
+
+  if (isStream) {
+    return `${summary}${OPERATION_PAD}${operation.operationId}Url: (${paramsArg}) =>\n${OPERATION_PAD}  toUrl(${pathExpression}, ${query}),`;
+  }
+  const args = [paramsArg, "options?: RequestOptions"].filter(Boolean).join(", ");
+  const requestArgs = [`"${method.toUpperCase()}"`, pathExpression, `{ query: ${query}${bodySchema ? ", body: params.body" : ""} }`, "options"];
+  return `${summary}${OPERATION_PAD}${operation.operationId}: (${args}) =>\n${OPERATION_PAD}  request<${resultType}>(${requestArgs.join(", ")}),`;
+};
+
+const declarations = Object.entries(schemas)
+  .filter(([, schema]) => !schema["x-ts-type"])
+  .map(([name, schema]) => toDeclaration(name, schema))
+  .join("\n\n");
+
+const operations = Object.entries(openApiDocument.paths)
+  .flatMap(([route, methods]) => Object.entries(methods).map(([method, operation]) => toOperation(route, method, operation)))
+  .join("\n");
+
+const importedTypes = Object.values(schemas)
+  .map((schema) => schema["x-ts-type"])
+  .filter((name) => name && new RegExp(`\\b${name}\\b`).test(`${declarations}\n${operations}`))
+  .sort();
+
+const source = `// Generated by scripts/generate-api-client.mjs from server/openapi.js. Do not edit; run \`npm run generate:api-client\`.
+import type {
+${importedTypes.map((name) => `  ${name},`).join("\n")}
+} from "../types";
+
+${declarations}
+
+export interface ApiClientConfig {
+  /** Server origin, without the API prefix. */
+  baseUrl: string;
+  /** Headers sent with every request, e.g. credentials. */
+  getHeaders?: () => Record<string, string>;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  /** Lets the request finish after the page unloads. */
+  keepalive?: boolean;
+}
+
+/** Rejections carry the HTTP status next to the server's error message. */
+export type ApiError = Error & { status: number };
+
+export const API_PREFIX = "${API_V1_PREFIX}";
+
+type QueryValue = string | number | boolean | undefined;
+
+const toQueryString = (query: Record<string, QueryValue>) => {
+  const search = new URLSearchParams();
+  Object.entries(query).forEach(([name, value]) => {
+    if (value !== undefined && value !== "") search.set(name, String(value));
+  });
+  const text = search.toString();
+  return text ? \`?\${text}\` : "";
+};
+
+export const createApiClient = ({ baseUrl, getHeaders = () => ({}) }: ApiClientConfig) => {
+  const toUrl = (path: string, query: Record<string, QueryValue>) => \`\${baseUrl}\${API_PREFIX}\${path}\${toQueryString(query)}\`;
+
+  const request = async <T>(
+    method: string,
+    path: string,
+    { query, body }: { query: Record<string, QueryValue>; body?: unknown },
+    options: RequestOptions = {},
+  ): Promise<T> => {
+    const response = await fetch(toUrl(path, query), {
+      method,
+      headers: { ...getHeaders(), ...(body === undefined ? {} : { "Content-Type": "application/json" }) },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: options.signal,
+      keepalive: options.keepalive,
+    });
+    if (!response.ok) {
+      let detail = "";
+      try {
+        const parsed = (await response.json()) as { error?: string };
+        detail = parsed?.error || "";
+      } catch {
+        detail = "";
+      }
+      throw Object.assign(new Error(detail || \`HTTP \${response.status}\`), { status: response.status }) as ApiError;
+    }
+    return (await response.json()) as T;
+  };
+
+  return {
+${operations}
+  };
+};
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+`;
+
+fs.writeFileSync(OUTPUT_PATH, source);
+console.log(`Wrote ${path.relative(process.cwd(), OUTPUT_PATH)}`);
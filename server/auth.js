@@ -0,0 +1,104 @@
+import crypto from "crypto";
+import fs from "fs";
+
+export const hashApiKey = (key) => crypto.createHash("sha256").update(String(key)).digest("hex");
+
+/**
+ * Reads `{ keys: [{ id, workspace, sha256, ratePerMinute?, dailyAnalyses? }] }`.
+ * Only hashes of keys are stored. A missing file means no keys, which leaves
+ * the API open.
+ */
+export const loadApiKeys = (filePath) => {
+  if (!fs.existsSync(filePath)) return [];
+
+  const parsed = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  return (Array.isArray(parsed?.keys) ? parsed.keys : []).map((entry, index) => {
+    if (!entry?.id || !entry?.workspace || !/^[a-f0-9]{64}$/.test(String(entry?.sha256 || ""))) {
+      throw new Error(`API key ${index + 1} in ${filePath} needs an id, a workspace and a sha256 hash.`);
+    }
+    return entry;
+  });
+};
+
+const withStatus = (message, status) => Object.assign(new Error(message), { status });
+
+/** Used for every request while no keys are configured; it has no limits. */
+const ANONYMOUS_ACCOUNT = { keyId: "anonymous", workspace: "default", ratePerMinute: null, dailyAnalyses: null };
+
+/**
+ * API key authentication with a sliding one-minute rate limit and a daily
+ * analysis quota per key. Keys are read from `Authorization: Bearer <key>` or
+ * `X-API-Key`; paths matching `queryKeyPaths` also accept `?key=`, for
+ * EventSource, which cannot send headers.
+ */
+export const createAuth = ({ keys, defaultRatePerMinute = 120, defaultDailyAnalyses = 100, countAnalysesToday, queryKeyPaths = [] }) => {
+  const accounts = new Map(
+    keys.map((entry) => [
+      entry.sha256,
+      {
+        keyId: entry.id,
+        workspace: entry.workspace,
+        ratePerMinute: Number(entry.ratePerMinute) || defaultRatePerMinute,
+        dailyAnalyses: Number(entry.dailyAnalyses) || defaultDailyAnalyses,
+      },
+    ]),
+  );
+  const recentRequests = new Map();
+  const enabled = accounts.size > 0;
+
+  const readKey = (req) => {
+    const header = String(req.get("authorization") || "");
+    if (/^bearer\s+/i.test(header)) return header.replace(/^bearer\s+/i, "").trim();
+    if (req.get("x-api-key")) return String(req.get("x-api-key")).trim();
+    const fullPath = `${req.baseUrl}${req.path}`;
+    if (queryKeyPaths.some((pattern) => pattern.test(fullPath)) && req.query.key) return String(req.query.key);
+    return "";
+  };
+
+  const authenticate = (req, res, next) => {
+    if (!enabled) {
+      req.account = ANONYMOUS_ACCOUNT;
+      return next();
+    }
+
+    const key = readKey(req);
+    const account = key ? accounts.get(hashApiKey(key)) : null;
+    if (!account) {
+      return res.status(401).json({ error: key ? "Invalid API key." : "An API key is required." });
+    }
+    req.account = account;
+    return next();
+  };
+
+  const rateLimit = (req, res, next) => {
+    const { keyId, ratePerMinute } = req.account || {};
+    if (!ratePerMinute) return next();
+
+    const now = Date.now();
+    const recent = (recentRequests.get(keyId) || []).filter((at) => now - at < 60000);
+    res.set("X-RateLimit-Limit", String(ratePerMinute));
+    if (recent.length >= ratePerMinute) {
+      recentRequests.set(keyId, recent);
+      res.set("X-RateLimit-Remaining", "0");
+      res.set("Retry-After", String(Math.max(1, Math.ceil((recent[0] + 60000 - now) / 1000))));
+      return res.status(429).json({ error: `Rate limit of ${ratePerMinute} requests a minute exceeded. Try again shortly.` });
+    }
+
+    recent.push(now);
+    recentRequests.set(keyId, recent);
+    res.set("X-RateLimit-Remaining", String(ratePerMinute - recent.length));
+    return next();
+  };
+
+  const remainingAnalyses = (account) =>
+    account?.dailyAnalyses ? Math.max(0, account.dailyAnalyses - countAnalysesToday(account.keyId)) : Infinity;
+
+  /** Throws a 429 error when the account has used up today's analyses. */
+  const assertQuota = (account) => {
+    if (remainingAnalyses(account) <= 0) {
+      throw withStatus(`Daily quota of ${account.dailyAnalyses} analyses reached. It resets at 00:00 UTC.`, 429);
+    }
+  };
+
+  return { enabled, authenticate, rateLimit, remainingAnalyses, assertQuota };
+};
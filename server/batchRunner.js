@@ -0,0 +1,206 @@
+import crypto from "crypto";
+
+const CITY_HEADERS = new Set(["city", "city name"]);
+const LOCALITY_HEADERS = new Set(["locality", "sector", "locality name", "area"]);
+
+/** RFC 4180 parser: quoted fields, doubled quotes, CRLF or LF line endings. */
+const parseCsv = (text) => {
+  const rows = [];
+  let row = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * Reads city,locality rows from CSV text. A header row is optional; when present
+ * the city and locality columns may be in any order. Row numbers are 1-based
+ * line numbers in the uploaded file so users can find problem rows.
+ */
+export const parseBatchCsv = (text) => {
+  const lines = parseCsv(String(text || "").replace(/^\uFEFF/, ""));
+  const header = (lines[0] || []).map((cell) => cell.trim().toLowerCase());
+  const cityIndex = header.findIndex((cell) => CITY_HEADERS.has(cell));
+  const localityIndex = header.findIndex((cell) => LOCALITY_HEADERS.has(cell));
+  const hasHeader = cityIndex >= 0 && localityIndex >= 0;
+  const columns = hasHeader ? { city: cityIndex, locality: localityIndex } : { city: 0, locality: 1 };
+
+  return lines
+    .map((cells, index) => ({
+      row: index + 1,
+      city: (cells[columns.city] || "").trim(),
+      locality: (cells[columns.locality] || "").trim(),
+      isBlank: cells.every((cell) => !cell.trim()),
+    }))
+    .slice(hasHeader ? 1 : 0)
+    .filter((line) => !line.isBlank)
+    .map(({ row, city, locality }) => ({ row, city, locality }));
+};
+
+const isFinishedRow = (row) => row.status !== "pending";
+
+/**
+ * Runs uploaded locality lists through the shared job queue. Rows are handed to
+ * `submit` at most `ratePerMinute` times a minute across all batches, so a large
+ * upload cannot starve interactive requests or trip model rate limits. Finished
+ * and cancelled batches are forgotten after `retentionMs`, and beyond
+ * `maxFinished` the oldest go first; running batches are always kept.
+ */
+export const createBatchRunner = ({
+  submit,
+  waitFor,
+  getKey,
+  ratePerMinute = 30,
+  maxRows = 500,
+  retentionMs = 60 * 60 * 1000,
+  maxFinished = 100,
+}) => {
+  const batches = new Map();
+  const finishedIds = [];
+  const dispatchQueue = [];
+  const intervalMs = Math.max(1, Math.round(60000 / Math.max(1, ratePerMinute)));
+  let dispatchTimer = null;
+  let lastDispatchAt = 0;
+
+  const evict = (id) => {
+    batches.delete(id);
+    const index = finishedIds.indexOf(id);
+    if (index >= 0) finishedIds.splice(index, 1);
+  };
+
+  const finishIfDone = (batch) => {
+    if (batch.state === "running" && batch.rows.every(isFinishedRow)) {
+      batch.state = batch.cancelRequested ? "cancelled" : "done";
+      batch.finishedAt = Date.now();
+      finishedIds.push(batch.id);
+      while (finishedIds.length > maxFinished) evict(finishedIds[0]);
+      setTimeout(() => evict(batch.id), retentionMs);
+    }
+  };
+
+  const settleRow = (batch, row, job) => {
+    if (!job || job.state === "cancelled") {
+      Object.assign(row, { status: "cancelled", error: job?.error || "Analysis was cancelled." });
+    } else {
+      Object.assign(row, {
+        status: job.status,
+        error: job.error || null,
+        suggestedCities: job.suggestedCities || [],
+        result: job.result || null,
+      });
+    }
+    finishIfDone(batch);
+  };
+
+  const dispatchNext = async () => {
+    dispatchTimer = null;
+    const next = dispatchQueue.shift();
+    if (!next) return;
+    const { batch, row } = next;
+    lastDispatchAt = Date.now();
+
+    try {
+      const job = await submit(row.city, row.locality, batch.owner);
+      row.jobId = job.id;
+      waitFor(job.id).then((finished) => settleRow(batch, row, finished));
+    } catch (error) {
+      Object.assign(row, { status: "failed", error: String(error?.message || "Unable to queue row.") });
+      finishIfDone(batch);
+    }
+    scheduleDispatch();
+  };
+
+  const scheduleDispatch = () => {
+    if (dispatchTimer || dispatchQueue.length === 0) return;
+    const wait = Math.max(0, lastDispatchAt + intervalMs - Date.now());
+    dispatchTimer = setTimeout(dispatchNext, wait);
+  };
+
+  /** `owner` is passed back to `submit` with every row, e.g. the account that uploaded the batch. */
+  const create = (inputRows, { owner = null } = {}) => {
+    if (inputRows.length === 0) throw new Error("The file has no city,locality rows.");
+    if (inputRows.length > maxRows) throw new Error(`A batch can hold at most ${maxRows} rows.`);
+
+    const batch = {
+      id: crypto.randomUUID(),
+      state: "running",
+      createdAt: Date.now(),
+      finishedAt: null,
+      cancelRequested: false,
+      owner,
+      rows: [],
+    };
+    const seen = new Map();
+
+    inputRows.forEach(({ row: rowNumber, city, locality }) => {
+      const row = { row: rowNumber, city, locality, status: "pending", jobId: null, error: null, suggestedCities: [], result: null };
+      batch.rows.push(row);
+
+      if (!city || !locality) {
+        Object.assign(row, { status: "invalid_input", error: "Both city and locality are required." });
+        return;
+      }
+      const key = getKey(city, locality);
+      if (seen.has(key)) {
+        Object.assign(row, { status: "invalid_input", error: `Duplicate of row ${seen.get(key)}.` });
+        return;
+      }
+      seen.set(key, rowNumber);
+      dispatchQueue.push({ batch, row });
+    });
+
+    batches.set(batch.id, batch);
+    finishIfDone(batch);
+    scheduleDispatch();
+    return batch;
+  };
+
+  /** Stops rows that have not been queued yet; rows already queued run to completion. */
+  const cancel = (id) => {
+    const batch = batches.get(id);
+    if (!batch || batch.state !== "running") return batch || null;
+
+    for (let i = dispatchQueue.length - 1; i >= 0; i -= 1) {
+      if (dispatchQueue[i].batch === batch) {
+        Object.assign(dispatchQueue[i].row, { status: "cancelled", error: "Batch was cancelled." });
+        dispatchQueue.splice(i, 1);
+      }
+    }
+    batch.cancelRequested = true;
+    finishIfDone(batch);
+    return batch;
+  };
+
+  return { create, cancel, get: (id) => batches.get(id) || null };
+};
@@ -0,0 +1,114 @@
+import { geocodeFromGazetteer, reverseGeocodeFromGazetteer } from "../shared/gazetteer.js";
+import { bboxToPolygon, haversineKm, isGeoPoint } from "../shared/geo.js";
+
+/**
+ * Geocoders expose `geocode(city, locality)` resolving to a GeoResolution and
+ * `reverse(point)` resolving to a ReversePlace (see shared/gazetteer.js), or
+ * null. The bundled gazetteer works offline and is the default; other drivers
+ * fall back to it when they miss or fail.
+ */
+export const createGazetteerGeocoder = () => ({
+  source: "gazetteer",
+  geocode: async (city, locality) => geocodeFromGazetteer(city, locality),
+  reverse: async (point) => reverseGeocodeFromGazetteer(point),
+});
+
+const toPolygon = (geojson) => {
+  if (geojson?.type !== "Polygon" || !Array.isArray(geojson.coordinates?.[0])) return undefined;
+  const ring = geojson.coordinates[0].map(([lng, lat]) => ({ lat, lng })).filter(isGeoPoint);
+  return ring.length >= 4 ? ring : undefined;
+};
+
+/** Nominatim-compatible search API, e.g. a self-hosted OpenStreetMap instance. */
+export const createNominatimGeocoder = ({ baseUrl, userAgent = "locate-api", timeoutMs = 5000, fallback }) => {
+  const cache = new Map();
+
+  const search = async (city, locality) => {
+    const query = new URLSearchParams({
+      q: `${locality}, ${city}, India`,
+      format: "jsonv2",
+      limit: "1",
+      polygon_geojson: "1",
+    });
+    const response = await fetch(`${baseUrl.replace(/\/+$/, "")}/search?${query}`, {
+      headers: { "User-Agent": userAgent, Accept: "application/json" },
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!response.ok) throw new Error(`Geocoder responded with HTTP ${response.status}`);
+
+    const [hit] = await response.json();
+    const centroid = hit ? { lat: Number(hit.lat), lng: Number(hit.lon) } : null;
+    if (!isGeoPoint(centroid)) return null;
+
+    // Nominatim bounding boxes are [south, north, west, east].
+    const [south, north, west, east] = (hit.boundingbox || []).map(Number);
+    const boundingPolygon =
+      toPolygon(hit.geojson) ||
+      ([south, north, west, east].every(Number.isFinite) ? bboxToPolygon([south, west, north, east]) : undefined);
+
+    return {
+      centroid,
+      ...(boundingPolygon ? { boundingPolygon } : {}),
+      confidence: Math.max(0.1, Math.min(0.95, Number(hit.importance) || 0.5)),
+      matchLevel: "locality",
+      matchedName: hit.display_name || `${locality}, ${city}`,
+      source: "nominatim",
+    };
+  };
+
+  const reverseLookup = async ({ lat, lng }) => {
+    const query = new URLSearchParams({ lat: String(lat), lon: String(lng), format: "jsonv2", zoom: "16", addressdetails: "1" });
+    const response = await fetch(`${baseUrl.replace(/\/+$/, "")}/reverse?${query}`, {
+      headers: { "User-Agent": userAgent, Accept: "application/json" },
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!response.ok) throw new Error(`Geocoder responded with HTTP ${response.status}`);
+
+    const hit = await response.json();
+    const address = hit?.address;
+    const city = address?.city || address?.town || address?.state_district;
+    if (!city) return null;
+    const hitPoint = { lat: Number(hit.lat), lng: Number(hit.lon) };
+    return {
+      city,
+      locality: address.suburb || address.neighbourhood || address.quarter || null,
+      distanceKm: isGeoPoint(hitPoint) ? Math.round(haversineKm({ lat, lng }, hitPoint) * 100) / 100 : 0,
+      source: "nominatim",
+    };
+  };
+
+  return {
+    source: "nominatim",
+    reverse: async (point) => {
+      const place = await reverseLookup(point).catch((error) => {
+        console.error("Geocoder error:", error?.message || error);
+        return null;
+      });
+      return place || fallback.reverse(point);
+    },
+    geocode: async (city, locality) => {
+      const key = `${city}::${locality}`.toLowerCase();
+      if (!cache.has(key)) {
+        cache.set(
+          key,
+          search(city, locality).catch((error) => {
+            console.error("Geocoder error:", error?.message || error);
+            cache.delete(key);
+            return null;
+          }),
+        );
+      }
+      return (await cache.get(key)) || fallback.geocode(city, locality);
+    },
+  };
+};
+
+export const createGeocoder = ({ driver = "gazetteer", url, userAgent }) => {
+  const gazetteer = createGazetteerGeocoder();
+  if (driver === "gazetteer") return gazetteer;
+  if (driver === "nominatim") {
+    if (!url) throw new Error('GEOCODER_URL is required for the "nominatim" geocoder.');
+    return createNominatimGeocoder({ baseUrl: url, userAgent, fallback: gazetteer });
+  }
+  throw new Error(`Unknown geocoder "${driver}". Use "gazetteer" or "nominatim".`);
+};
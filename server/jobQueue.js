@@ -0,0 +1,230 @@
+export const JOB_STATES = ["queued", "running", "done", "failed", "cancelled"];
+
+const TERMINAL_STATES = new Set(["done", "failed", "cancelled"]);
+
+export const isTerminalState = (state) => TERMINAL_STATES.has(state);
+
+const createAbortError = () => {
+  const error = new Error("Job cancelled.");
+  error.name = "AbortError";
+  return error;
+};
+
+/**
+ * In-process job queue. `registry` (id -> job) and `keyIndex` (input key -> id)
+ * are owned by the caller so existing lookups keep working; the queue only
+ * mutates job records through them.
+ *
+ * Clients that wait on a job can `attach` to it and `release` it when they give
+ * up. A job is cancelled once every attached client has released it; jobs that
+ * nobody attached to (or that are already finished) are left alone.
+ */
+export const createJobQueue = ({
+  registry,
+  keyIndex,
+  run,
+  concurrency = 2,
+  maxRetries = 2,
+  retryBaseMs = 1000,
+  isRetryable = () => true,
+  onFailed = (job, error) => ({ error: String(error?.message || "Job failed.") }),
+  onUpdate = () => {},
+}) => {
+  const pending = [];
+  const controllers = new Map();
+  const retryTimers = new Map();
+  const waiters = new Map();
+  const clients = new Map();
+  const releaseTimers = new Map();
+  let runningCount = 0;
+
+  const clearReleaseTimers = (id) => {
+    [...releaseTimers.keys()]
+      .filter((timerKey) => timerKey.startsWith(`${id}::`))
+      .forEach((timerKey) => {
+        clearTimeout(releaseTimers.get(timerKey));
+        releaseTimers.delete(timerKey);
+      });
+  };
+
+  const update = (id, patch) => {
+    const current = registry.get(id);
+    if (!current) return null;
+    const next = { ...current, ...patch, updatedAt: Date.now() };
+    registry.set(id, next);
+    onUpdate(next);
+
+    if (isTerminalState(next.state)) {
+      (waiters.get(id) || []).forEach((resolve) => resolve(next));
+      waiters.delete(id);
+      clients.delete(id);
+      clearReleaseTimers(id);
+    }
+    return next;
+  };
+
+  const pump = () => {
+    while (runningCount < concurrency && pending.length > 0) {
+      const id = pending.shift();
+      const job = registry.get(id);
+      if (!job || job.state !== "queued") continue;
+      execute(job);
+    }
+  };
+
+  const execute = async (job) => {
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    runningCount += 1;
+    const attempts = (job.attempts || 0) + 1;
+    update(job.id, { state: "running", attempts });
+
+    try {
+      const patch = await run(registry.get(job.id), {
+        signal: controller.signal,
+        onStage: (stage) => {
+          if (!controller.signal.aborted) update(job.id, { stage });
+        },
+      });
+      if (controller.signal.aborted) throw createAbortError();
+      update(job.id, { ...patch, state: "done", stage: "done" });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        update(job.id, { state: "cancelled", status: "cancelled", error: "Analysis was cancelled." });
+      } else if (attempts <= maxRetries && isRetryable(error)) {
+        const delay = retryBaseMs * 2 ** (attempts - 1);
+        console.warn(`Job ${job.id} attempt ${attempts} failed; retrying in ${delay}ms:`, error?.message || error);
+        update(job.id, { state: "queued", stage: "queued", lastError: String(error?.message || error) });
+        retryTimers.set(
+          job.id,
+          setTimeout(() => {
+            retryTimers.delete(job.id);
+            pending.push(job.id);
+            pump();
+          }, delay),
+        );
+      } else {
+        console.error(`Job ${job.id} failed:`, error);
+        update(job.id, { ...onFailed(registry.get(job.id), error), state: "failed", stage: "done" });
+      }
+    } finally {
+      controllers.delete(job.id);
+      runningCount -= 1;
+      pump();
+    }
+  };
+
+  const enqueue = (key, fields, { force = false } = {}) => {
+    const existingId = keyIndex.get(key);
+    const existing = existingId ? registry.get(existingId) : null;
+    if (existing && existing.state !== "cancelled" && !(force && isTerminalState(existing.state))) {
+      return existing;
+    }
+
+    const id = fields.id;
+    keyIndex.set(key, id);
+    registry.set(id, {
+      ...fields,
+      key,
+      state: "queued",
+      status: "pending",
+      stage: "queued",
+      attempts: 0,
+      result: null,
+      error: null,
+      suggestedCities: [],
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+    pending.push(id);
+    pump();
+    return registry.get(id);
+  };
+
+  /** Registers an already-finished job, e.g. a report loaded from persistent storage. */
+  const restore = (key, fields) => {
+    keyIndex.set(key, fields.id);
+    registry.set(fields.id, {
+      suggestedCities: [],
+      error: null,
+      ...fields,
+      key,
+      state: "done",
+      stage: "done",
+      attempts: 0,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+    return registry.get(fields.id);
+  };
+
+  const cancel = (id) => {
+    const job = registry.get(id);
+    if (!job || isTerminalState(job.state)) return job || null;
+
+    if (retryTimers.has(id)) {
+      clearTimeout(retryTimers.get(id));
+      retryTimers.delete(id);
+    }
+    const pendingIndex = pending.indexOf(id);
+    if (pendingIndex >= 0) pending.splice(pendingIndex, 1);
+
+    if (controllers.has(id)) {
+      controllers.get(id).abort();
+      return registry.get(id);
+    }
+    return update(id, { state: "cancelled", status: "cancelled", error: "Analysis was cancelled." });
+  };
+
+  const attach = (id, clientId) => {
+    const job = registry.get(id);
+    if (!job || !clientId || isTerminalState(job.state)) return;
+
+    const timerKey = `${id}::${clientId}`;
+    if (releaseTimers.has(timerKey)) {
+      clearTimeout(releaseTimers.get(timerKey));
+      releaseTimers.delete(timerKey);
+    }
+    clients.set(id, (clients.get(id) || new Set()).add(clientId));
+  };
+
+  /**
+   * Detaches a client, after `graceMs` if given so a client that reconnects in
+   * time (e.g. falling back from streaming to polling) keeps the job alive.
+   */
+  const release = (id, clientId, { graceMs = 0 } = {}) => {
+    const timerKey = `${id}::${clientId}`;
+    const detach = () => {
+      releaseTimers.delete(timerKey);
+      const attached = clients.get(id);
+      if (!attached?.delete(clientId) || attached.size > 0) return;
+      clients.delete(id);
+      console.warn(`Job ${id} was abandoned by its clients; cancelling.`);
+      cancel(id);
+    };
+
+    if (releaseTimers.has(timerKey)) clearTimeout(releaseTimers.get(timerKey));
+    if (graceMs > 0) {
+      releaseTimers.set(timerKey, setTimeout(detach, graceMs));
+    } else {
+      detach();
+    }
+    return registry.get(id) || null;
+  };
+
+  const waitFor = (id) => {
+    const job = registry.get(id);
+    if (!job || isTerminalState(job.state)) return Promise.resolve(job || null);
+    return new Promise((resolve) => {
+      waiters.set(id, [...(waiters.get(id) || []), resolve]);
+    });
+  };
+
+  const stats = () => ({
+    concurrency,
+    running: runningCount,
+    queued: pending.length + retryTimers.size,
+  });
+
+  return { enqueue, restore, cancel, attach, release, waitFor, stats, get: (id) => registry.get(id) || null };
+};
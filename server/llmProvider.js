@@ -0,0 +1,163 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { GoogleGenAI } from "@google/genai";
+
+/**
+ * Providers expose `generateJson({ prompt, schema, seed, signal, purpose })`,
+ * resolving to the raw JSON text of the model reply; an aborted `signal` cancels
+ * the call. `purpose` only labels the call for the usage ledger.
+ * Schemas use the Gemini `Type` vocabulary (upper-case type names); other
+ * providers translate them. Errors carry an HTTP-like `status` where one is
+ * known so callers can decide on retries.
+ */
+
+export const hashPrompt = (prompt) => crypto.createHash("sha256").update(prompt).digest("hex").slice(0, 24);
+
+const withStatus = (message, status) => Object.assign(new Error(message), { status });
+
+export const createGeminiProvider = ({ apiKey, models }) => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: "gemini",
+    generateJson: async ({ prompt, schema, seed, signal }) => {
+      let lastError = null;
+
+      for (const model of models) {
+        try {
+          const response = await ai.models.generateContent({
+            model,
+            contents: prompt,
+            config: {
+              responseMimeType: "application/json",
+              responseSchema: schema,
+              temperature: 0,
+              topP: 0,
+              topK: 1,
+              candidateCount: 1,
+              seed,
+              abortSignal: signal,
+            },
+          });
+          return response.text || "";
+        } catch (error) {
+          const message = String(error?.message || "");
+          const isModelNotFound = message.includes("not found") || message.includes("NOT_FOUND");
+          if (!isModelNotFound) {
+            throw error;
+          }
+          lastError = error;
+        }
+      }
+
+      throw lastError || new Error("No compatible Gemini model found.");
+    },
+  };
+};
+
+/** Gemini schema -> JSON Schema: lower-case type names, same structure. */
+const toJsonSchema = (schema) => {
+  if (!schema || typeof schema !== "object") return schema;
+  const { type, properties, items, ...rest } = schema;
+  return {
+    ...rest,
+    ...(type ? { type: String(type).toLowerCase() } : {}),
+    ...(properties
+      ? { properties: Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, toJsonSchema(value)])) }
+      : {}),
+    ...(items ? { items: toJsonSchema(items) } : {}),
+  };
+};
+
+/** Some local models wrap JSON in a Markdown code fence despite the response format. */
+const stripCodeFence = (text) => text.replace(/^\s*```(?:json)?\s*/i, "").replace(/\s*```\s*$/, "");
+
+/** Chat Completions API, e.g. OpenAI or a local llama.cpp / Ollama server. */
+export const createOpenAiCompatibleProvider = ({ baseUrl, apiKey, model, timeoutMs = 120000 }) => ({
+  name: "openai",
+  generateJson: async ({ prompt, schema, seed, signal }) => {
+    const timeout = AbortSignal.timeout(timeoutMs);
+    const response = await fetch(`${baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: "user", content: prompt }],
+        temperature: 0,
+        seed,
+        response_format: { type: "json_schema", json_schema: { name: "response", schema: toJsonSchema(schema) } },
+      }),
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw withStatus(`Model endpoint responded with HTTP ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ""}`, response.status);
+    }
+
+    const data = await response.json();
+    return stripCodeFence(String(data?.choices?.[0]?.message?.content || ""));
+  },
+});
+
+const getFixturePath = (dir, prompt) => path.join(dir, `${hashPrompt(prompt)}.json`);
+
+/**
+ * Replays recorded replies keyed by prompt hash, so the whole pipeline runs
+ * without network access. A missing fixture is a non-retryable error.
+ */
+export const createFixtureProvider = ({ dir }) => ({
+  name: "mock",
+  generateJson: async ({ prompt }) => {
+    const filePath = getFixturePath(dir, prompt);
+    try {
+      const fixture = JSON.parse(await fs.readFile(filePath, "utf8"));
+      return typeof fixture.response === "string" ? fixture.response : JSON.stringify(fixture.response);
+    } catch (error) {
+      if (error?.code !== "ENOENT") throw error;
+      throw withStatus(`No LLM fixture at ${filePath} for prompt: ${prompt.slice(0, 80)}`, 404);
+    }
+  },
+});
+
+/** Saves every live reply as a fixture the mock provider can replay. */
+export const withFixtureRecording = (provider, dir) => ({
+  name: provider.name,
+  generateJson: async (request) => {
+    const text = await provider.generateJson(request);
+    let response = text;
+    try {
+      response = JSON.parse(text);
+    } catch {
+      // Keep unparseable replies verbatim so the replay fails the same way.
+    }
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(getFixturePath(dir, request.prompt), `${JSON.stringify({ prompt: request.prompt, response }, null, 2)}\n`);
+    return text;
+  },
+});
+
+/** Returns null for the "none" driver; callers then use offline fallbacks. */
+export const createLlmProvider = ({ driver, gemini, openai, fixturesDir, record }) => {
+  const build = () => {
+    if (driver === "none") return null;
+    if (driver === "gemini") {
+      if (!gemini.apiKey) throw new Error('GEMINI_API_KEY is required for the "gemini" LLM provider.');
+      return createGeminiProvider(gemini);
+    }
+    if (driver === "openai") {
+      if (!openai.baseUrl || !openai.model) {
+        throw new Error('OPENAI_BASE_URL and OPENAI_MODEL are required for the "openai" LLM provider.');
+      }
+      return createOpenAiCompatibleProvider(openai);
+    }
+    if (driver === "mock") return createFixtureProvider({ dir: fixturesDir });
+    throw new Error(`Unknown LLM provider "${driver}". Use "gemini", "openai", "mock" or "none".`);
+  };
+
+  const provider = build();
+  return provider && record && driver !== "mock" ? withFixtureRecording(provider, fixturesDir) : provider;
+};
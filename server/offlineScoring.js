@@ -0,0 +1,268 @@
+import fs from "fs";
+import path from "path";
+import { findCity } from "../shared/gazetteer.js";
+import { haversineKm, isGeoPoint } from "../shared/geo.js";
+
+const LANDMARK_RADIUS_KM = 15;
+const AMENITY_RADIUS_KM = 5;
+const MAX_LANDMARKS = 10;
+
+/** Linear 0-1 ratio between a worst and best value; either order works. */
+const scale = (value, worst, best) => {
+  if (!Number.isFinite(value)) return 0;
+  return Math.max(0, Math.min(1, (value - worst) / (best - worst)));
+};
+
+/** Weighted indicators behind a category; each one becomes a score driver. */
+const weighParts = (parts) => parts.reduce((sum, part) => sum + part.weight * part.ratio, 0);
+
+const formatKm = (km) => `${km < 10 ? km.toFixed(1) : Math.round(km)} km`;
+
+const formatInr = (value) => `INR ${Math.round(value).toLocaleString("en-IN")}`;
+
+const describe = (ratio, [low, mid, high]) => (ratio >= 0.67 ? high : ratio >= 0.34 ? mid : low);
+
+export const loadOfflineDataset = (dir) => {
+  const read = (file) => JSON.parse(fs.readFileSync(path.join(dir, file), "utf8"));
+  const { cities } = read("city-indicators.json");
+  const { pointsOfInterest, catalysts } = read("points-of-interest.json");
+  return { cities, pointsOfInterest, catalysts };
+};
+
+/**
+ * Rule-based LOCATE scoring over the bundled datasets, used when no model is
+ * available. Each category is a weighted blend of 0-1 indicator ratios
+ * (`parts`, tagged with the section they belong to); the section bodies quote
+ * those indicators so every score can be traced back to its inputs. Distances
+ * are straight-line from the geocoded centroid, so distance-based sections are
+ * only "medium" confidence for a matched locality and "low" at city level.
+ */
+export const createOfflineScorer = ({ dataset }) => {
+  const withDistance = (entries, origin) =>
+    entries.map((entry) => ({ ...entry, distanceKm: haversineKm(origin, entry) })).sort((a, b) => a.distanceKm - b.distanceKm);
+
+  const scoreUnknownCity = (city, locality) => {
+    const body = `The offline dataset has no indicators for ${city}, so this section is held at the neutral midpoint.`;
+    const neutral = (titles) => ({
+      ratio: 0.5,
+      summary: `No offline indicators are available for ${locality}, ${city}.`,
+      sections: Object.fromEntries(titles.map((title) => [title, body])),
+      confidence: Object.fromEntries(titles.map((title) => [title, "low"])),
+      parts: [],
+    });
+    return {
+      cityEntry: null,
+      hasData: false,
+      categories: {
+        L: neutral(["Overview", "Jobs & Diversification", "Population & Urbanisation"]),
+        O: neutral(["Catalysts"]),
+        C: neutral(["Intra-City Connectivity", "Regional Connectivity"]),
+        A: neutral(["Lifestyle", "Social Infra", "Gentrification"]),
+        T: neutral(["Prices & Yields", "Market Behaviour"]),
+        E: neutral(["Supply", "Demand", "Absorption"]),
+      },
+      nearbyLandmarks: [],
+    };
+  };
+
+  /**
+   * @param {{ city: string, locality: string, geo?: { centroid: { lat: number, lng: number }, matchLevel: string } | null }} input
+   */
+  const score = ({ city, locality, geo }) => {
+    const cityEntry = findCity(city);
+    const indicators = cityEntry ? dataset.cities[cityEntry.id] : null;
+    if (!cityEntry || !indicators) return scoreUnknownCity(city, locality);
+
+    const origin = isGeoPoint(geo?.centroid) ? geo.centroid : cityEntry.centroid;
+    const isCityLevel = !isGeoPoint(geo?.centroid) || geo.matchLevel !== "locality";
+    const places = withDistance(dataset.pointsOfInterest, origin);
+    const nearest = (category) => places.find((p) => p.category === category) || null;
+    const within = (categories, km) => places.filter((p) => categories.includes(p.category) && p.distanceKm <= km);
+    const nearText = (p, noun) => (p ? `${p.name} (${formatKm(p.distanceKm)})` : `no indexed ${noun}`);
+    const distanceConfidence = isCityLevel ? "low" : "medium";
+    const cityConfidence = "medium";
+
+    // L: city scale, office stock and access to the nearest employment hub.
+    const hub = nearest("IT Park");
+    const hubsNearby = within(["IT Park"], 15);
+    const populationRatio = scale(Math.log10(indicators.populationMillion), Math.log10(0.5), Math.log10(20));
+    const officeRatio = scale(indicators.officeStockMsf, 0, 150);
+    const jobsRatio = hub ? scale(hub.distanceKm, 25, 3) : 0;
+    const economyParts = [
+      { section: "Overview", label: `${indicators.officeStockMsf} million sq ft Grade A office stock`, weight: 0.35, ratio: officeRatio },
+      { section: "Jobs & Diversification", label: hub ? `${hub.name} at ${formatKm(hub.distanceKm)}` : "No indexed employment hub", weight: 0.35, ratio: jobsRatio },
+      { section: "Population & Urbanisation", label: `City population of about ${indicators.populationMillion} million`, weight: 0.3, ratio: populationRatio },
+    ];
+    const economy = {
+      ratio: weighParts(economyParts),
+      parts: economyParts,
+      confidence: { Overview: cityConfidence, "Jobs & Diversification": distanceConfidence, "Population & Urbanisation": cityConfidence },
+      summary: `${cityEntry.name} has about ${indicators.populationMillion} million residents and ${indicators.officeStockMsf} million sq ft of Grade A office space; the nearest employment hub is ${nearText(hub, "hub")}.`,
+      sections: {
+        Overview:
+          `${cityEntry.name} is a ${describe(populationRatio, ["smaller", "mid-sized", "large"])} market of about ${indicators.populationMillion} million people with ${indicators.officeStockMsf} million sq ft of Grade A office stock.` +
+          (isCityLevel ? ` ${locality} is not in the bundled gazetteer, so distances are measured from the ${cityEntry.name} city centre.` : ""),
+        "Jobs & Diversification": hub
+          ? `The nearest indexed employment hub is ${hub.name}, ${formatKm(hub.distanceKm)} away, with ${hubsNearby.length} hub${hubsNearby.length === 1 ? "" : "s"} within 15 km. Job access scores ${Math.round(jobsRatio * 100)}% on a 3-25 km scale.`
+          : `No employment hubs are indexed near ${locality}, so job access adds nothing to this score.`,
+        "Population & Urbanisation": `Population is growing at about ${indicators.populationGrowthPct}% a year, ${describe(scale(indicators.populationGrowthPct, 0.5, 4), ["a slow pace of household formation", "a steady pace of household formation", "a fast pace of household formation"])}.`,
+      },
+    };
+
+    // O: catalysts weighted by how far inside their influence radius the locality sits.
+    const catalysts = withDistance(dataset.catalysts, origin)
+      .map((c) => ({ ...c, impact: Math.max(0, 1 - c.distanceKm / c.influenceKm) }))
+      .filter((c) => c.impact > 0)
+      .sort((a, b) => b.impact - a.impact);
+    const catalystRatio = Math.min(1, catalysts.reduce((sum, c) => sum + c.impact, 0));
+    const projectParts = [
+      { section: "Catalysts", label: "Baseline upside", weight: 0.2, ratio: 1 },
+      {
+        section: "Catalysts",
+        label: catalysts.length ? `${catalysts.length} catalyst${catalysts.length === 1 ? "" : "s"} in reach, nearest ${catalysts[0].name}` : "No catalysts in reach",
+        weight: 0.8,
+        ratio: catalystRatio,
+      },
+    ];
+    const projects = {
+      ratio: weighParts(projectParts),
+      parts: projectParts,
+      confidence: { Catalysts: distanceConfidence },
+      summary: catalysts.length
+        ? `${catalysts[0].name} is ${formatKm(catalysts[0].distanceKm)} away.`
+        : `No major infrastructure catalysts are indexed within reach of ${locality}.`,
+      sections: {
+        Catalysts: catalysts.length
+          ? `${catalysts
+              .slice(0, 3)
+              .map((c) => `${c.name} is ${formatKm(c.distanceKm)} away, inside its ${c.influenceKm} km influence radius`)
+              .join("; ")}. Closer projects weigh more; the score starts from a 20% baseline.`
+          : `No major projects in the bundled dataset fall within their influence radius of ${locality}, so the score reflects the 20% baseline only.`,
+      },
+    };
+
+    // C: metro access dominates; rail and airport cover regional reach.
+    const metro = nearest("Metro Station");
+    const rail = nearest("Railway Station");
+    const airport = nearest("Airport");
+    const metroRatio = indicators.hasMetro && metro ? scale(metro.distanceKm, 8, 1) : 0;
+    const railRatio = rail ? scale(rail.distanceKm, 20, 3) : 0;
+    const airportRatio = airport ? scale(airport.distanceKm, 50, 12) : 0;
+    const connectivityParts = [
+      {
+        section: "Intra-City Connectivity",
+        label: indicators.hasMetro ? (metro ? `${metro.name} at ${formatKm(metro.distanceKm)}` : "No indexed metro station") : "No metro network",
+        weight: 0.45,
+        ratio: metroRatio,
+      },
+      { section: "Regional Connectivity", label: rail ? `${rail.name} at ${formatKm(rail.distanceKm)}` : "No indexed railway station", weight: 0.25, ratio: railRatio },
+      { section: "Regional Connectivity", label: airport ? `${airport.name} at ${formatKm(airport.distanceKm)}` : "No indexed airport", weight: 0.3, ratio: airportRatio },
+    ];
+    const connectivity = {
+      ratio: weighParts(connectivityParts),
+      parts: connectivityParts,
+      confidence: { "Intra-City Connectivity": distanceConfidence, "Regional Connectivity": distanceConfidence },
+      summary: indicators.hasMetro
+        ? `The nearest metro station is ${nearText(metro, "station")}.`
+        : `${cityEntry.name} has no operational metro, so commutes rely on road transport.`,
+      sections: {
+        "Intra-City Connectivity": indicators.hasMetro
+          ? `The nearest metro station is ${nearText(metro, "station")}; stations within 1 km score in full and beyond 8 km score nothing.`
+          : `${cityEntry.name} has no operational metro network, so this part of the score is zero and daily commutes depend on road transport.`,
+        "Regional Connectivity": `The nearest mainline station is ${nearText(rail, "railway station")} and the nearest airport is ${nearText(airport, "airport")}.`,
+      },
+    };
+
+    // A: daily amenities within 5 km plus how established the area is.
+    const mall = nearest("Mall");
+    const park = nearest("Park");
+    const hospital = nearest("Hospital");
+    const education = places.find((p) => p.category === "School" || p.category === "University") || null;
+    const amenitiesNearby = within(["Mall", "Park", "Hospital", "School", "University"], AMENITY_RADIUS_KM);
+    const centreKm = haversineKm(origin, cityEntry.centroid);
+    const densityRatio = Math.min(1, amenitiesNearby.length / 8);
+    const centralityRatio = scale(centreKm, 25, 3);
+    const maturityRatio = (densityRatio + centralityRatio) / 2;
+    const amenityParts = [
+      { section: "Lifestyle", label: mall ? `${mall.name} at ${formatKm(mall.distanceKm)}` : "No indexed mall", weight: 0.21, ratio: mall ? scale(mall.distanceKm, 8, 1) : 0 },
+      { section: "Lifestyle", label: park ? `${park.name} at ${formatKm(park.distanceKm)}` : "No indexed park", weight: 0.14, ratio: park ? scale(park.distanceKm, 6, 1) : 0 },
+      { section: "Social Infra", label: hospital ? `${hospital.name} at ${formatKm(hospital.distanceKm)}` : "No indexed hospital", weight: 0.24, ratio: hospital ? scale(hospital.distanceKm, 8, 1.5) : 0 },
+      {
+        section: "Social Infra",
+        label: education ? `${education.name} at ${formatKm(education.distanceKm)}` : "No indexed school or university",
+        weight: 0.16,
+        ratio: education ? scale(education.distanceKm, 12, 2) : 0,
+      },
+      { section: "Gentrification", label: `${amenitiesNearby.length} amenities within ${AMENITY_RADIUS_KM} km`, weight: 0.125, ratio: densityRatio },
+      { section: "Gentrification", label: `${formatKm(centreKm)} from the city centre`, weight: 0.125, ratio: centralityRatio },
+    ];
+    const amenities = {
+      ratio: weighParts(amenityParts),
+      parts: amenityParts,
+      confidence: { Lifestyle: distanceConfidence, "Social Infra": distanceConfidence, Gentrification: distanceConfidence },
+      summary: `${amenitiesNearby.length} indexed amenit${amenitiesNearby.length === 1 ? "y" : "ies"} within ${AMENITY_RADIUS_KM} km; the nearest hospital is ${nearText(hospital, "hospital")}.`,
+      sections: {
+        Lifestyle: `The nearest mall is ${nearText(mall, "mall")} and the nearest park or open space is ${nearText(park, "park")}.`,
+        "Social Infra": `The nearest hospital is ${nearText(hospital, "hospital")} and the nearest school or university is ${nearText(education, "school or university")}.`,
+        Gentrification: `${amenitiesNearby.length} indexed amenit${amenitiesNearby.length === 1 ? "y lies" : "ies lie"} within ${AMENITY_RADIUS_KM} km and the locality is ${formatKm(centreKm)} from the city centre, which reads as ${describe(maturityRatio, ["an emerging", "a consolidating", "an established"])} neighbourhood.`,
+      },
+    };
+
+    // T: city-level price momentum and rental income.
+    const growthRatio = scale(indicators.priceGrowthPct, 0, 12);
+    const yieldRatio = scale(indicators.rentalYieldPct, 1.5, 4.5);
+    const trendParts = [
+      { section: "Prices & Yields", label: `${indicators.rentalYieldPct}% gross rental yield`, weight: 0.45, ratio: yieldRatio },
+      { section: "Market Behaviour", label: `${indicators.priceGrowthPct}% annual price growth`, weight: 0.55, ratio: growthRatio },
+    ];
+    const trends = {
+      ratio: weighParts(trendParts),
+      parts: trendParts,
+      confidence: { "Prices & Yields": cityConfidence, "Market Behaviour": cityConfidence },
+      summary: `Prices in ${cityEntry.name} are growing about ${indicators.priceGrowthPct}% a year with rental yields near ${indicators.rentalYieldPct}%.`,
+      sections: {
+        "Prices & Yields": `Average residential prices in ${cityEntry.name} are around ${formatInr(indicators.avgPricePerSqft)} per sq ft with gross rental yields near ${indicators.rentalYieldPct}%, ${describe(yieldRatio, ["a thin", "a moderate", "a strong"])} income return.`,
+        "Market Behaviour": `Prices have risen about ${indicators.priceGrowthPct}% a year recently, ${describe(growthRatio, ["a subdued", "a steady", "a strong"])} appreciation trend. These are city-wide figures; locality premiums are not modelled offline.`,
+      },
+    };
+
+    // E: unsold inventory against population growth and job access.
+    const overhangRatio = scale(indicators.inventoryOverhangMonths, 48, 12);
+    const supplyDemandParts = [
+      { section: "Supply", label: `${indicators.inventoryOverhangMonths} months of unsold inventory`, weight: 0.5, ratio: overhangRatio },
+      { section: "Demand", label: `${indicators.populationGrowthPct}% annual population growth`, weight: 0.3, ratio: scale(indicators.populationGrowthPct, 0.5, 4) },
+      { section: "Demand", label: hub ? `Job access to ${hub.name}` : "Limited indexed job access", weight: 0.2, ratio: jobsRatio },
+    ];
+    const absorptionRatio = weighParts(supplyDemandParts);
+    const supplyDemand = {
+      ratio: absorptionRatio,
+      parts: supplyDemandParts,
+      confidence: { Supply: cityConfidence, Demand: cityConfidence, Absorption: cityConfidence },
+      summary: `Unsold inventory in ${cityEntry.name} would take about ${indicators.inventoryOverhangMonths} months to clear.`,
+      sections: {
+        Supply: `Unsold inventory in ${cityEntry.name} would take about ${indicators.inventoryOverhangMonths} months to clear at the current sales pace, ${describe(overhangRatio, ["a heavy", "a moderate", "a lean"])} overhang.`,
+        Demand: `Demand draws on ${indicators.populationGrowthPct}% annual population growth and ${hub ? `job access to ${hub.name} (${formatKm(hub.distanceKm)})` : "limited indexed job access"}.`,
+        Absorption: `Weighing the overhang against demand, absorption looks ${describe(absorptionRatio, ["slow", "balanced", "healthy"])}.`,
+      },
+    };
+
+    const nearbyLandmarks = places
+      .filter((p) => p.distanceKm <= LANDMARK_RADIUS_KM)
+      .slice(0, MAX_LANDMARKS)
+      .map((p) => ({
+        name: p.name,
+        category: p.category,
+        distanceKm: Math.round(p.distanceKm * 10) / 10,
+        coordinates: { lat: p.lat, lng: p.lng },
+      }));
+
+    return {
+      cityEntry,
+      hasData: true,
+      categories: { L: economy, O: projects, C: connectivity, A: amenities, T: trends, E: supplyDemand },
+      nearbyLandmarks,
+    };
+  };
+
+  return { score };
+};
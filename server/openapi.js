@@ -0,0 +1,429 @@
+import { SCORING_PROFILES } from "../shared/scoring.js";
+import { toJsonSchema } from "../shared/schema.js";
+import {
+  AmbiguityResultSchema,
+  AnalysisStageSchema,
+  BatchRowSchema,
+  BatchRowStatusSchema,
+  BatchStatusSchema,
+  EvidenceConfidenceSchema,
+  EvidenceSourceSchema,
+  GeoPointSchema,
+  GradeLabelSchema,
+  GradeSchema,
+  LocateCategorySchema,
+  LocateSectionSchema,
+  LocateSummarySchema,
+  LocationAnalysisSchema,
+  LocationGeoSchema,
+  NearbyLandmarkSchema,
+  ReportProvenanceSchema,
+  ReportSummarySchema,
+  ReversePlaceSchema,
+  ScoreDriverSchema,
+  SharedReportSchema,
+  ShareLinkSchema,
+  ValidationResultSchema,
+} from "../shared/reportSchema.js";
+
+/**
+ * OpenAPI 3.0 description of `/api/v1`. The server serves it at
+ * `/api/v1/openapi.json` and `scripts/generate-api-client.mjs` turns it into
+ * `services/apiClient.ts`, so change the routes and this document together.
+ * Schemas with `x-ts-type` come from `shared/reportSchema.js` and have a type
+ * in `types.ts`; the generated client imports those instead of redeclaring them.
+ */
+
+const ref = (name) => ({ $ref: `#/components/schemas/${name}` });
+const string = (extra = {}) => ({ type: "string", ...extra });
+const number = (extra = {}) => ({ type: "number", ...extra });
+const integer = (extra = {}) => ({ type: "integer", ...extra });
+const boolean = (extra = {}) => ({ type: "boolean", ...extra });
+const oneOf = (...values) => ({ type: typeof values[0] === "number" ? "number" : "string", enum: values });
+const arrayOf = (items, extra = {}) => ({ type: "array", items, ...extra });
+const nullable = (schema) => (schema.$ref ? { allOf: [schema], nullable: true } : { ...schema, nullable: true });
+const mapOf = (values) => ({ type: "object", additionalProperties: values });
+
+/** Every property is required unless listed in `optional`. */
+const object = (properties, { optional = [], ...extra } = {}) => ({
+  type: "object",
+  properties,
+  required: Object.keys(properties).filter((name) => !optional.includes(name)),
+  ...extra,
+});
+
+/** Components defined in `shared/reportSchema.js`; `types.ts` exports a type of the same name for each. */
+const SHARED_SCHEMAS = {
+  EvidenceConfidence: EvidenceConfidenceSchema,
+  EvidenceSource: EvidenceSourceSchema,
+  AnalysisStage: AnalysisStageSchema,
+  ScoreDriver: ScoreDriverSchema,
+  LocateSection: LocateSectionSchema,
+  LocateCategory: LocateCategorySchema,
+  LocateSummary: LocateSummarySchema,
+  GeoPoint: GeoPointSchema,
+  LocationGeo: LocationGeoSchema,
+  ReversePlace: ReversePlaceSchema,
+  NearbyLandmark: NearbyLandmarkSchema,
+  ReportProvenance: ReportProvenanceSchema,
+  LocationAnalysis: LocationAnalysisSchema,
+  ReportSummary: ReportSummarySchema,
+  ShareLink: ShareLinkSchema,
+  SharedReport: SharedReportSchema,
+  BatchRowStatus: BatchRowStatusSchema,
+  BatchRow: BatchRowSchema,
+  BatchStatus: BatchStatusSchema,
+  ValidationResult: ValidationResultSchema,
+  AmbiguityResult: AmbiguityResultSchema,
+};
+const sharedRefs = new Map(Object.entries(SHARED_SCHEMAS).map(([name, schema]) => [schema, name]));
+const fromShared = (schema) => toJsonSchema(schema, { refs: sharedRefs });
+
+const schemas = {
+  ErrorReply: object({ error: string() }),
+
+  ...Object.fromEntries(Object.entries(SHARED_SCHEMAS).map(([name, schema]) => [name, { ...fromShared(schema), "x-ts-type": name }])),
+
+  LocationQuery: object({ city: string(), locality: string() }),
+  AnalysisRequest: object(
+    {
+      city: string(),
+      locality: string(),
+      refresh: boolean({ description: "Re-run the analysis instead of reusing the latest stored report." }),
+      clientId: string({ description: "Attaches the caller to the job; the job is cancelled once every attached client has released it." }),
+    },
+    { optional: ["refresh", "clientId"] },
+  ),
+  AnalyzeRequest: object(
+    {
+      city: string(),
+      locality: string(),
+      refresh: boolean({ description: "Re-run the analysis instead of reusing the latest stored report." }),
+      waitMs: integer({
+        minimum: 0,
+        maximum: 120000,
+        description: "How long to wait for the result before answering 202 with the pending job. Defaults to 30000.",
+      }),
+    },
+    { optional: ["refresh", "waitMs"] },
+  ),
+  AnalysisJob: object({
+    id: string(),
+    status: oneOf("pending", "done", "invalid_input", "needs_clarification", "cancelled"),
+    state: oneOf("queued", "running", "done", "failed", "cancelled"),
+  }),
+  AnalysisReply: object(
+    {
+      id: string(),
+      status: oneOf("pending", "done", "invalid_input", "needs_clarification", "cancelled"),
+      state: oneOf("queued", "running", "done", "failed", "cancelled"),
+      stage: ref("AnalysisStage"),
+      result: nullable(ref("LocationAnalysis")),
+      error: nullable(string({ description: "Set on failed replies, and on done replies that fell back to offline scoring." })),
+      suggestedCities: arrayOf(string()),
+    },
+    { optional: ["state", "stage"] },
+  ),
+  QueueStats: object({ concurrency: integer(), running: integer(), queued: integer() }),
+  BatchRequest: object(
+    {
+      csv: string({ description: "`city,locality` rows, with an optional header row." }),
+      rows: arrayOf(object({ city: string(), locality: string() })),
+    },
+    { optional: ["csv", "rows"] },
+  ),
+  ShareRequest: object(
+    { reportId: string(), profile: string(), expiresInDays: integer({ minimum: 1 }) },
+    { optional: ["profile", "expiresInDays"] },
+  ),
+  ScoringProfile: object({
+    id: oneOf(...SCORING_PROFILES.map((profile) => profile.id)),
+    name: string(),
+    description: string(),
+    weights: mapOf(number()),
+    gradeBands: arrayOf(object({ minScore: number(), grade: fromShared(GradeSchema), gradeLabel: fromShared(GradeLabelSchema) })),
+  }),
+  UsageTotals: object({
+    analyses: integer(),
+    modelCalls: integer(),
+    failedModelCalls: integer(),
+    promptChars: integer(),
+    responseChars: integer(),
+  }),
+  UsageEntry: object(
+    {
+      at: string({ format: "date-time" }),
+      type: oneOf("analysis", "analysis-refund", "model-call"),
+      requestId: nullable(string()),
+      keyId: nullable(string()),
+      workspace: nullable(string()),
+    },
+    { additionalProperties: true },
+  ),
+  UsageReport: object({
+    day: string({ format: "date" }),
+    workspace: string(),
+    byKey: mapOf(ref("UsageTotals")),
+    entries: arrayOf(ref("UsageEntry")),
+    key: object({
+      keyId: string(),
+      ratePerMinute: nullable(integer()),
+      dailyAnalyses: nullable(integer()),
+      remainingAnalysesToday: nullable(integer()),
+    }),
+  }),
+};
+
+const json = (schema) => ({ content: { "application/json": { schema } } });
+const reply = (description, schema) => ({ description, ...json(schema) });
+const failure = (description) => reply(description, ref("ErrorReply"));
+
+const pathParam = (name, description) => ({ name, in: "path", required: true, schema: string(), description });
+const queryParam = (name, schema, { required = false, description } = {}) => ({ name, in: "query", required, schema, description });
+const profileParam = queryParam("profile", string(), {
+  description: "Id of the scoring profile to weight the scores with, from `GET /profiles`. Defaults to balanced.",
+});
+const clientParam = queryParam("client", string(), { description: "Client id to attach to the job." });
+
+const operation = ({ id, summary, parameters = [], body, responses, security }) => ({
+  operationId: id,
+  summary,
+  ...(parameters.length > 0 ? { parameters } : {}),
+  ...(body ? { requestBody: { required: true, ...json(body) } } : {}),
+  responses: {
+    ...responses,
+    ...(security === false ? {} : { 401: failure("Missing or invalid API key."), 429: failure("Rate limit or daily quota reached.") }),
+  },
+  ...(security === false ? { security: [] } : {}),
+});
+
+const paths = {
+  "/analyze": {
+    post: operation({
+      id: "analyze",
+      summary: "Runs an analysis and waits for it, up to `waitMs`.",
+      parameters: [profileParam],
+      body: ref("AnalyzeRequest"),
+      responses: {
+        200: reply("The analysis finished; `status` says how.", ref("AnalysisReply")),
+        202: reply("Still running after `waitMs`; poll `GET /reply/{id}`.", ref("AnalysisReply")),
+        400: failure("Missing city or locality."),
+      },
+    }),
+  },
+  "/validate": {
+    post: operation({
+      id: "validateLocation",
+      summary: "Checks that a city and locality look like a real place.",
+      body: ref("LocationQuery"),
+      responses: { 200: reply("Validation result.", ref("ValidationResult")), 400: failure("Missing city or locality.") },
+    }),
+  },
+  "/ambiguity": {
+    post: operation({
+      id: "checkAmbiguity",
+      summary: "Checks whether a locality name matches places in several cities.",
+      body: ref("LocationQuery"),
+      responses: {
+        200: reply("Ambiguity result.", ref("AmbiguityResult")),
+        400: failure("Missing city or locality."),
+        502: failure("The model is unavailable."),
+      },
+    }),
+  },
+  "/input": {
+    post: operation({
+      id: "submitAnalysis",
+      summary: "Queues an analysis, or reuses the latest stored report, and returns the job.",
+      body: ref("AnalysisRequest"),
+      responses: { 200: reply("The job.", ref("AnalysisJob")), 400: failure("Missing city or locality.") },
+    }),
+  },
+  "/input/{id}": {
+    delete: operation({
+      id: "cancelAnalysis",
+      summary: "Cancels a job, or with `client` releases one attached client.",
+      parameters: [pathParam("id", "Job id."), clientParam],
+      responses: { 200: reply("The job.", ref("AnalysisJob")), 404: failure("Unknown job.") },
+    }),
+  },
+  "/reply/{id}": {
+    get: operation({
+      id: "getReply",
+      summary: "Returns a job's current reply.",
+      parameters: [pathParam("id", "Job id."), profileParam, clientParam],
+      responses: { 200: reply("The reply.", ref("AnalysisReply")), 404: failure("Unknown job.") },
+    }),
+  },
+  "/stream/{id}": {
+    get: operation({
+      id: "streamReply",
+      summary: "Server-sent `stage` events while a job runs, then one `reply` event.",
+      parameters: [
+        pathParam("id", "Job id."),
+        profileParam,
+        clientParam,
+        queryParam("key", string(), { description: "API key, for clients that cannot send headers." }),
+      ],
+      responses: {
+        200: { description: "Event stream.", content: { "text/event-stream": { schema: string() } } },
+        404: failure("Unknown job."),
+      },
+    }),
+  },
+  "/queue": {
+    get: operation({ id: "getQueueStats", summary: "Job queue load.", responses: { 200: reply("Queue stats.", ref("QueueStats")) } }),
+  },
+  "/batch": {
+    post: operation({
+      id: "createBatch",
+      summary: "Starts a batch of analyses from CSV text or rows.",
+      parameters: [profileParam],
+      body: ref("BatchRequest"),
+      responses: { 202: reply("The batch.", ref("BatchStatus")), 400: failure("No usable rows, or too many.") },
+    }),
+  },
+  "/batch/{id}": {
+    get: operation({
+      id: "getBatch",
+      summary: "Returns a batch with per-row status.",
+      parameters: [pathParam("id", "Batch id."), profileParam],
+      responses: { 200: reply("The batch.", ref("BatchStatus")), 404: failure("Unknown batch.") },
+    }),
+    delete: operation({
+      id: "cancelBatch",
+      summary: "Drops rows that have not been queued yet.",
+      parameters: [pathParam("id", "Batch id.")],
+      responses: { 200: reply("The batch.", ref("BatchStatus")), 404: failure("Unknown batch.") },
+    }),
+  },
+  "/reports": {
+    get: operation({
+      id: "listReports",
+      summary: "Lists the saved report versions of a locality, newest first.",
+      parameters: [queryParam("city", string(), { required: true }), queryParam("locality", string(), { required: true })],
+      responses: {
+        200: reply("Report versions.", object({ reports: arrayOf(ref("ReportSummary")) })),
+        400: failure("Missing city or locality."),
+      },
+    }),
+  },
+  "/reports/{reportId}": {
+    get: operation({
+      id: "getReport",
+      summary: "Returns one saved report version.",
+      parameters: [pathParam("reportId", "Report id."), profileParam],
+      responses: { 200: reply("The report.", object({ report: ref("LocationAnalysis") })), 404: failure("Unknown report.") },
+    }),
+  },
+  "/shares": {
+    post: operation({
+      id: "createShare",
+      summary: "Creates a read-only share link for a saved report.",
+      body: ref("ShareRequest"),
+      responses: { 201: reply("The share.", object({ share: ref("ShareLink") })), 404: failure("Unknown report.") },
+    }),
+    get: operation({
+      id: "listShares",
+      summary: "Lists a report's share links with their view counts.",
+      parameters: [queryParam("reportId", string(), { required: true })],
+      responses: { 200: reply("Share links.", object({ shares: arrayOf(ref("ShareLink")) })) },
+    }),
+  },
+  "/shares/{shareId}": {
+    delete: operation({
+      id: "revokeShare",
+      summary: "Revokes a share link.",
+      parameters: [pathParam("shareId", "Share id.")],
+      responses: { 200: reply("The share.", object({ share: ref("ShareLink") })), 404: failure("Unknown share.") },
+    }),
+  },
+  "/shared/{token}": {
+    get: operation({
+      id: "openSharedReport",
+      summary: "Opens a share link and counts the view. Needs no API key.",
+      parameters: [pathParam("token", "Share token.")],
+      security: false,
+      responses: {
+        200: reply("The shared report.", ref("SharedReport")),
+        404: failure("Invalid token."),
+        410: failure("Expired or revoked link."),
+      },
+    }),
+  },
+  "/usage": {
+    get: operation({
+      id: "getUsage",
+      summary: "The caller's workspace usage on a UTC day, with the calling key's limits.",
+      parameters: [queryParam("date", string({ format: "date" }), { description: "YYYY-MM-DD; defaults to today." })],
+      responses: { 200: reply("Usage.", ref("UsageReport")), 400: failure("Malformed date.") },
+    }),
+  },
+  "/profiles": {
+    get: operation({
+      id: "listProfiles",
+      summary: "Lists the scoring profiles.",
+      responses: { 200: reply("Profiles.", object({ profiles: arrayOf(ref("ScoringProfile")) })) },
+    }),
+  },
+  "/geocode": {
+    get: operation({
+      id: "geocode",
+      summary: "Places a city and locality.",
+      parameters: [queryParam("city", string(), { required: true }), queryParam("locality", string(), { required: true })],
+      responses: { 200: reply("The location.", object({ geo: ref("LocationGeo") })), 404: failure("Unknown location.") },
+    }),
+  },
+  "/reverse-geocode": {
+    get: operation({
+      id: "reverseGeocode",
+      summary: "Finds the nearest known city and locality to a point.",
+      parameters: [queryParam("lat", number(), { required: true }), queryParam("lng", number(), { required: true })],
+      responses: { 200: reply("The place.", object({ place: ref("ReversePlace") })), 404: failure("No known place nearby.") },
+    }),
+  },
+  "/openapi.json": {
+    get: operation({
+      id: "getOpenApiDocument",
+      summary: "This document. Needs no API key.",
+      security: false,
+      responses: { 200: reply("OpenAPI 3.0 document.", { type: "object", additionalProperties: true }) },
+    }),
+  },
+  "/ping": {
+    get: operation({
+      id: "ping",
+      summary: "Liveness check. Needs no API key.",
+      security: false,
+      responses: { 200: reply("The server is up.", object({ ok: boolean(), message: string() })) },
+    }),
+  },
+};
+
+export const API_V1_PREFIX = "/api/v1";
+
+export const openApiDocument = {
+  openapi: "3.0.3",
+  info: {
+    title: "LOCATE API",
+    version: "1.0.0",
+    description:
+      "Locality scoring for real-estate investment. Send an API key as `Authorization: Bearer <key>` or `X-API-Key` when the server has keys configured.",
+  },
+  servers: [{ url: API_V1_PREFIX }],
+  security: [{ bearerKey: [] }, { headerKey: [] }],
+  paths,
+  components: {
+    securitySchemes: {
+      bearerKey: { type: "http", scheme: "bearer" },
+      headerKey: { type: "apiKey", in: "header", name: "X-API-Key" },
+    },
+    schemas,
+  },
+};
+
+/** `METHOD /path` lines for the index route. */
+export const listEndpoints = (document = openApiDocument) =>
+  Object.entries(document.paths).flatMap(([route, methods]) =>
+    Object.keys(methods).map((method) => `${method.toUpperCase()} ${API_V1_PREFIX}${route}`),
+  );
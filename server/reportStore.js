@@ -0,0 +1,112 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+
+const hashKey = (key) => crypto.createHash("sha256").update(key).digest("hex").slice(0, 24);
+
+export const buildReportId = (key, evaluationDate) => `${hashKey(key)}-${evaluationDate}`;
+
+const parseReportId = (reportId) => {
+  const match = /^([a-f0-9]{24})-(\d{4}-\d{2}-\d{2})$/.exec(String(reportId || ""));
+  return match ? { keyHash: match[1], evaluationDate: match[2] } : null;
+};
+
+const toSummary = (record, version) => ({
+  reportId: version.reportId,
+  city: record.city,
+  locality: record.locality,
+  evaluationDate: version.evaluationDate,
+  savedAt: version.savedAt,
+  totalScore: version.analysis?.summary?.totalScore ?? 0,
+  grade: version.analysis?.summary?.grade ?? "D",
+});
+
+const newestFirst = (a, b) => b.evaluationDate.localeCompare(a.evaluationDate);
+
+/**
+ * Shared store behaviour over a record loader/saver. A record holds every
+ * version of one city/locality key; versions are keyed by evaluationDate, so a
+ * re-run on the same day replaces that day's version.
+ */
+const createVersionedStore = ({ loadRecord, saveRecord }) => {
+  let saveChain = Promise.resolve();
+
+  const writeVersion = async ({ key, city, locality, analysis }) => {
+    const keyHash = hashKey(key);
+    const evaluationDate = analysis.evaluationDate;
+    const reportId = buildReportId(key, evaluationDate);
+    const record = (await loadRecord(keyHash)) || { key, city, locality, versions: [] };
+    const version = { reportId, evaluationDate, savedAt: new Date().toISOString(), analysis: { ...analysis, reportId } };
+
+    record.city = city;
+    record.locality = locality;
+    record.versions = [...record.versions.filter((v) => v.evaluationDate !== evaluationDate), version].sort(newestFirst);
+    await saveRecord(keyHash, record);
+    return toSummary(record, version);
+  };
+
+  // Saves are read-modify-write, so run them one at a time.
+  const saveReport = (input) => {
+    const run = saveChain.then(() => writeVersion(input));
+    saveChain = run.catch(() => {});
+    return run;
+  };
+
+  const listReports = async (key) => {
+    const record = await loadRecord(hashKey(key));
+    return record ? record.versions.map((version) => toSummary(record, version)) : [];
+  };
+
+  const getReport = async (reportId) => {
+    const parsed = parseReportId(reportId);
+    if (!parsed) return null;
+    const record = await loadRecord(parsed.keyHash);
+    const version = record?.versions.find((v) => v.reportId === reportId);
+    return version ? version.analysis : null;
+  };
+
+  const getLatestReport = async (key) => {
+    const record = await loadRecord(hashKey(key));
+    return record?.versions[0]?.analysis || null;
+  };
+
+  return { saveReport, listReports, getReport, getLatestReport };
+};
+
+export const createMemoryReportStore = () => {
+  const records = new Map();
+  return createVersionedStore({
+    loadRecord: async (keyHash) => structuredClone(records.get(keyHash) || null),
+    saveRecord: async (keyHash, record) => {
+      records.set(keyHash, structuredClone(record));
+    },
+  });
+};
+
+export const createFileReportStore = ({ dir }) => {
+  const fileFor = (keyHash) => path.join(dir, `${keyHash}.json`);
+
+  return createVersionedStore({
+    loadRecord: async (keyHash) => {
+      try {
+        return JSON.parse(await fs.readFile(fileFor(keyHash), "utf8"));
+      } catch (error) {
+        if (error?.code === "ENOENT") return null;
+        throw error;
+      }
+    },
+    saveRecord: async (keyHash, record) => {
+      // Swap files atomically so readers never see partial JSON.
+      await fs.mkdir(dir, { recursive: true });
+      const tmpFile = `${fileFor(keyHash)}.${process.pid}.tmp`;
+      await fs.writeFile(tmpFile, JSON.stringify(record, null, 2));
+      await fs.rename(tmpFile, fileFor(keyHash));
+    },
+  });
+};
+
+export const createReportStore = ({ driver = "file", dir }) => {
+  if (driver === "memory") return createMemoryReportStore();
+  if (driver === "file") return createFileReportStore({ dir });
+  throw new Error(`Unknown report store driver "${driver}". Use "file" or "memory".`);
+};
@@ -4,18 +4,69 @@ import crypto from "crypto";
 import dotenv from "dotenv";
 import path from "path";
 import { fileURLToPath } from "url";
-import { GoogleGenAI, Type } from "@google/genai";
+import { createBatchRunner, parseBatchCsv } from "./batchRunner.js";
+import { createGeocoder } from "./geocoder.js";
+import { createJobQueue, isTerminalState } from "./jobQueue.js";
+import { createLlmProvider } from "./llmProvider.js";
+import { createOfflineScorer, loadOfflineDataset } from "./offlineScoring.js";
+import { createReportStore } from "./reportStore.js";
+import { createAuth, loadApiKeys } from "./auth.js";
+import { createUsageLedger, usageContext, withUsageRecording } from "./usageLedger.js";
+import { SHARE_ID_PATTERN, createShareService, createShareStore } from "./shareLinks.js";
+import { API_V1_PREFIX, listEndpoints, openApiDocument } from "./openapi.js";
+import {
+  DEFAULT_CATEGORY_MAX,
+  SCORING_PROFILES,
+  applyScoringProfile,
+  buildGrade,
+  getScoringProfile,
+} from "../shared/scoring.js";
+import { haversineKm, isGeoPoint } from "../shared/geo.js";
+import { parse, toGeminiSchema } from "../shared/schema.js";
+import {
+  AmbiguityResultSchema,
+  LocationAnalysisSchema,
+  ModelLandmarkVerificationSchema,
+  ModelReportSchema,
+  ValidationResultSchema,
+} from "../shared/reportSchema.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 dotenv.config({ path: path.resolve(__dirname, "../.env") });
 
-const app = express();
-app.use(cors());
-app.use(express.json());
-
 const PORT = process.env.PORT || 4000;
+const JOB_CONCURRENCY = Math.max(1, Number(process.env.JOB_CONCURRENCY) || 2);
+const JOB_MAX_RETRIES = Math.max(0, Number(process.env.JOB_MAX_RETRIES ?? 2));
+const JOB_RETRY_BASE_MS = Math.max(100, Number(process.env.JOB_RETRY_BASE_MS) || 1000);
+const BATCH_RATE_PER_MINUTE = Math.max(1, Number(process.env.BATCH_RATE_PER_MINUTE) || 30);
+const BATCH_MAX_ROWS = Math.max(1, Number(process.env.BATCH_MAX_ROWS) || 500);
+const BATCH_RETENTION_MS = Math.max(1000, Number(process.env.BATCH_RETENTION_MS) || 60 * 60 * 1000);
+const BATCH_MAX_FINISHED = Math.max(1, Number(process.env.BATCH_MAX_FINISHED) || 100);
+const CLIENT_RELEASE_GRACE_MS = Math.max(0, Number(process.env.CLIENT_RELEASE_GRACE_MS ?? 5000));
+const REPORT_STORE_DRIVER = process.env.REPORT_STORE || "file";
+const REPORT_STORE_DIR = path.resolve(__dirname, process.env.REPORT_STORE_DIR || "storage/reports");
+const SHARE_STORE_DRIVER = process.env.SHARE_STORE || (REPORT_STORE_DRIVER === "memory" ? "memory" : "file");
+const SHARE_STORE_DIR = path.resolve(__dirname, process.env.SHARE_STORE_DIR || "storage/shares");
+const SHARE_SECRET = process.env.SHARE_SECRET || "";
+const SHARE_DEFAULT_DAYS = Math.max(1, Number(process.env.SHARE_DEFAULT_DAYS) || 7);
+const SHARE_MAX_DAYS = Math.max(SHARE_DEFAULT_DAYS, Number(process.env.SHARE_MAX_DAYS) || 90);
+// In-memory report runs keep the ledger in memory too; every other report driver leaves it on disk.
+const USAGE_LEDGER_DRIVER = process.env.USAGE_LEDGER || (REPORT_STORE_DRIVER === "memory" ? "memory" : "file");
+const USAGE_LEDGER_DIR = path.resolve(__dirname, process.env.USAGE_LEDGER_DIR || "storage/usage");
+const API_KEYS_FILE = path.resolve(__dirname, process.env.API_KEYS_FILE || "config/api-keys.json");
+const RATE_LIMIT_PER_MINUTE = Math.max(1, Number(process.env.RATE_LIMIT_PER_MINUTE) || 120);
+const DAILY_ANALYSIS_QUOTA = Math.max(1, Number(process.env.DAILY_ANALYSIS_QUOTA) || 100);
+const CORS_ORIGINS = (process.env.CORS_ORIGINS || "http://localhost:3000")
+  .split(",")
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+const GEOCODER_DRIVER = process.env.GEOCODER || "gazetteer";
+const GEOCODER_URL = process.env.GEOCODER_URL;
 const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
+const LLM_PROVIDER = process.env.LLM_PROVIDER || (apiKey ? "gemini" : "none");
+const LLM_FIXTURES_DIR = path.resolve(__dirname, process.env.LLM_FIXTURES_DIR || "fixtures/llm");
+const LLM_RECORD = process.env.LLM_RECORD === "true";
 const MODEL_CANDIDATES = [
   process.env.GEMINI_MODEL,
   "gemini-2.0-flash",
@@ -23,165 +74,119 @@ const MODEL_CANDIDATES = [
   "gemini-1.5-flash-latest",
   "gemini-2.5-flash",
 ].filter(Boolean);
-const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
+const usageLedger = createUsageLedger({ driver: USAGE_LEDGER_DRIVER, dir: USAGE_LEDGER_DIR });
+const modelProvider = createLlmProvider({
+  driver: LLM_PROVIDER,
+  gemini: { apiKey, models: MODEL_CANDIDATES },
+  openai: { baseUrl: process.env.OPENAI_BASE_URL, apiKey: process.env.OPENAI_API_KEY, model: process.env.OPENAI_MODEL },
+  fixturesDir: LLM_FIXTURES_DIR,
+  record: LLM_RECORD,
+});
+const llm = modelProvider && withUsageRecording(modelProvider, usageLedger);
 
-if (ai) {
-  console.log("GoogleGenAI initialized");
+if (llm) {
+  console.log(`LLM provider "${llm.name}" initialized${LLM_RECORD ? `; recording fixtures to ${LLM_FIXTURES_DIR}` : ""}`);
 } else {
-  console.log("No API key provided; running with fallback responses");
+  console.log("No LLM provider configured; running with fallback responses");
 }
 
+const auth = createAuth({
+  keys: loadApiKeys(API_KEYS_FILE),
+  defaultRatePerMinute: RATE_LIMIT_PER_MINUTE,
+  defaultDailyAnalyses: DAILY_ANALYSIS_QUOTA,
+  countAnalysesToday: usageLedger.countAnalysesToday,
+  queryKeyPaths: [/^\/api(\/v1)?\/stream\//],
+});
+if (auth.enabled) {
+  console.log(`API key authentication enabled from ${API_KEYS_FILE}`);
+} else {
+  console.warn(`No API keys found at ${API_KEYS_FILE}; the API is open to anyone who can reach it`);
+}
+
+/** Share links are opened by clients without a key. Paths are relative to `/api`, with or without `/v1`. */
+const PUBLIC_API_PATHS = [/^(\/v1)?\/ping$/, /^(\/v1)?\/shared\/[^/]+$/, /^\/v1\/openapi\.json$/];
+/** Job status reads are polled several times a second while a job runs, so they are not rate limited. */
+const UNMETERED_API_PATHS = [/^(\/v1)?\/reply\/[^/]+$/, /^(\/v1)?\/stream\/[^/]+$/];
+
+const app = express();
+app.use(
+  cors({
+    origin: CORS_ORIGINS.includes("*") ? true : CORS_ORIGINS,
+    exposedHeaders: ["X-RateLimit-Limit", "X-RateLimit-Remaining", "Retry-After"],
+  }),
+);
+app.use(express.json({ limit: "1mb" }));
+app.use("/api", (req, res, next) =>
+  PUBLIC_API_PATHS.some((pattern) => pattern.test(req.path)) ? next() : auth.authenticate(req, res, next),
+);
+app.use("/api", (req, res, next) =>
+  !req.account || UNMETERED_API_PATHS.some((pattern) => pattern.test(req.path)) ? next() : auth.rateLimit(req, res, next),
+);
+
+/**
+ * `/api/v1` is the documented API (see `openapi.js`). The unversioned `/api`
+ * routes stay as aliases of the shared ones for existing clients.
+ */
+const api = express.Router();
+const apiV1 = express.Router();
+app.use(API_V1_PREFIX, apiV1, api);
+app.use("/api", api);
+
 const store = new Map();
 const inputKeyMap = new Map();
+const stageListeners = new Map();
+const reportStore = createReportStore({ driver: REPORT_STORE_DRIVER, dir: REPORT_STORE_DIR });
+if (!SHARE_SECRET) {
+  console.warn("SHARE_SECRET is not set; share links will stop working when the server restarts");
+}
+const shareService = createShareService({
+  store: createShareStore({ driver: SHARE_STORE_DRIVER, dir: SHARE_STORE_DIR }),
+  secret: SHARE_SECRET || crypto.randomBytes(32).toString("hex"),
+  defaultTtlDays: SHARE_DEFAULT_DAYS,
+  maxTtlDays: SHARE_MAX_DAYS,
+});
+const geocoder = createGeocoder({ driver: GEOCODER_DRIVER, url: GEOCODER_URL });
+const offlineScorer = createOfflineScorer({ dataset: loadOfflineDataset(path.resolve(__dirname, "data")) });
 
 const CATEGORY_CONFIG = {
   L: {
     name: "Local Economy & Indicators",
-    maxScore: 200,
+    maxScore: DEFAULT_CATEGORY_MAX.L,
     sections: ["Overview", "Jobs & Diversification", "Population & Urbanisation"],
   },
   O: {
     name: "Ongoing / Future Projects",
-    maxScore: 150,
+    maxScore: DEFAULT_CATEGORY_MAX.O,
     sections: ["Catalysts"],
   },
   C: {
     name: "Connectivity & Commute",
-    maxScore: 150,
+    maxScore: DEFAULT_CATEGORY_MAX.C,
     sections: ["Intra-City Connectivity", "Regional Connectivity"],
   },
   A: {
     name: "Amenities & Gentrification",
-    maxScore: 150,
+    maxScore: DEFAULT_CATEGORY_MAX.A,
     sections: ["Lifestyle", "Social Infra", "Gentrification"],
   },
   T: {
     name: "Trends & Historical Data",
-    maxScore: 150,
+    maxScore: DEFAULT_CATEGORY_MAX.T,
     sections: ["Prices & Yields", "Market Behaviour"],
   },
   E: {
     name: "Existing Supply vs Demand",
-    maxScore: 200,
+    maxScore: DEFAULT_CATEGORY_MAX.E,
     sections: ["Supply", "Demand", "Absorption"],
   },
 };
 
 const CATEGORY_ORDER = ["L", "O", "C", "A", "T", "E"];
 
-const MODEL_REPORT_SCHEMA = {
-  type: Type.OBJECT,
-  properties: {
-    cityName: { type: Type.STRING },
-    altName: { type: Type.STRING },
-    state: { type: Type.STRING },
-    focus: { type: Type.STRING },
-    categories: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          code: { type: Type.STRING },
-          name: { type: Type.STRING },
-          score: { type: Type.NUMBER },
-          sections: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                title: { type: Type.STRING },
-                body: { type: Type.STRING },
-              },
-              required: ["title", "body"],
-            },
-          },
-        },
-        required: ["code", "score", "sections"],
-      },
-    },
-    headlineVerdict: { type: Type.STRING },
-    nearbyLandmarks: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          name: { type: Type.STRING },
-          category: { type: Type.STRING },
-          distanceKm: { type: Type.NUMBER },
-        },
-        required: ["name", "category", "distanceKm"],
-      },
-    },
-    interpretation: {
-      type: Type.OBJECT,
-      properties: {
-        strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
-        watchOuts: { type: Type.ARRAY, items: { type: Type.STRING } },
-      },
-      required: ["strengths", "watchOuts"],
-    },
-    recommendations: {
-      type: Type.OBJECT,
-      properties: {
-        microMarketStrategy: { type: Type.ARRAY, items: { type: Type.STRING } },
-        developerAndInfra: { type: Type.ARRAY, items: { type: Type.STRING } },
-        assetType: { type: Type.ARRAY, items: { type: Type.STRING } },
-        holdingHorizon: { type: Type.STRING },
-      },
-      required: ["microMarketStrategy", "developerAndInfra", "assetType", "holdingHorizon"],
-    },
-    verdictText: { type: Type.STRING },
-  },
-  required: [
-    "cityName",
-    "altName",
-    "state",
-    "focus",
-    "categories",
-    "headlineVerdict",
-    "nearbyLandmarks",
-    "interpretation",
-    "recommendations",
-    "verdictText",
-  ],
-};
-
-const MATCH_SCHEMA = {
-  type: Type.OBJECT,
-  properties: {
-    isAmbiguous: { type: Type.BOOLEAN },
-    suggestedCities: { type: Type.ARRAY, items: { type: Type.STRING } },
-  },
-  required: ["isAmbiguous", "suggestedCities"],
-};
-
-const VALIDATION_SCHEMA = {
-  type: Type.OBJECT,
-  properties: {
-    isValid: { type: Type.BOOLEAN },
-    reason: { type: Type.STRING },
-  },
-  required: ["isValid", "reason"],
-};
-
-const LANDMARK_VERIFICATION_SCHEMA = {
-  type: Type.OBJECT,
-  properties: {
-    nearbyLandmarks: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          name: { type: Type.STRING },
-          category: { type: Type.STRING },
-          distanceKm: { type: Type.NUMBER },
-        },
-        required: ["name", "category", "distanceKm"],
-      },
-    },
-  },
-  required: ["nearbyLandmarks"],
-};
+const MODEL_REPORT_SCHEMA = toGeminiSchema(ModelReportSchema);
+const MATCH_SCHEMA = toGeminiSchema(AmbiguityResultSchema);
+const VALIDATION_SCHEMA = toGeminiSchema(ValidationResultSchema);
+const LANDMARK_VERIFICATION_SCHEMA = toGeminiSchema(ModelLandmarkVerificationSchema);
 
 const normalize = (value) => (value || "").trim();
 const getInputKey = (city, locality) =>
@@ -202,42 +207,8 @@ const stableSeed = (input) => {
   return (hash >>> 0) % 2147483647;
 };
 
-const seededInt = (seedObj, min, max) => {
-  seedObj.value = (seedObj.value * 48271) % 2147483647;
-  return min + (seedObj.value % (max - min + 1));
-};
-
-const generateContentWithModelFallback = async (buildRequest) => {
-  let lastError = null;
-
-  for (const model of MODEL_CANDIDATES) {
-    try {
-      return await ai.models.generateContent(buildRequest(model));
-    } catch (error) {
-      const message = String(error?.message || "");
-      const isModelNotFound = message.includes("not found") || message.includes("NOT_FOUND");
-      if (!isModelNotFound) {
-        throw error;
-      }
-      lastError = error;
-    }
-  }
-
-  throw lastError || new Error("No compatible Gemini model found.");
-};
-
 const clampByMax = (value, max) => Math.max(0, Math.min(max, Number(value) || 0));
 
-const buildGrade = (totalScore) => {
-  if (totalScore >= 900) return { grade: "A+", gradeLabel: "Excellent" };
-  if (totalScore >= 850) return { grade: "A", gradeLabel: "Excellent" };
-  if (totalScore >= 800) return { grade: "B+", gradeLabel: "Very Strong" };
-  if (totalScore >= 750) return { grade: "B", gradeLabel: "Strong" };
-  if (totalScore >= 700) return { grade: "C+", gradeLabel: "Stable" };
-  if (totalScore >= 650) return { grade: "C", gradeLabel: "Moderate" };
-  return { grade: "D", gradeLabel: "Weak" };
-};
-
 const getDefaultBody = (title, city, locality) => {
   if (title === "Overview") return `${locality} in ${city} has locality-level demand linked to city economic fundamentals.`;
   if (title === "Jobs & Diversification") return `Employment catchments near ${locality} support residential and rental demand with sector diversification.`;
@@ -256,7 +227,37 @@ const getDefaultBody = (title, city, locality) => {
   return `${locality} in ${city} shows relevant locality-level dynamics.`;
 };
 
-const normalizeSections = (rawSections, sectionTitles, city, locality) => {
+const CONFIDENCE_LEVELS = ["low", "medium", "high"];
+
+const normalizeConfidence = (value, fallback) => {
+  const level = normalize(value).toLowerCase();
+  return CONFIDENCE_LEVELS.includes(level) ? level : fallback;
+};
+
+const normalizeDrivers = (input, maxScore) =>
+  (Array.isArray(input) ? input : [])
+    .map((driver) => ({
+      label: normalize(driver?.label),
+      points: Math.round(Math.max(-maxScore / 2, Math.min(maxScore / 2, Number(driver?.points) || 0))),
+    }))
+    .filter((driver) => driver.label && driver.points !== 0)
+    .slice(0, 4);
+
+const byImpact = (a, b) => Math.abs(b.points) - Math.abs(a.points);
+
+/** Category-level evidence: the weakest section confidence and the strongest drivers. */
+const summarizeEvidence = (sections, source, confidence) => ({
+  confidence:
+    confidence ||
+    sections.reduce(
+      (lowest, section) => (CONFIDENCE_LEVELS.indexOf(section.confidence) < CONFIDENCE_LEVELS.indexOf(lowest) ? section.confidence : lowest),
+      "high",
+    ),
+  source,
+  drivers: sections.flatMap((section) => section.drivers).sort(byImpact).slice(0, 5),
+});
+
+const normalizeSections = (rawSections, sectionTitles, city, locality, maxScore) => {
   const safeSections = Array.isArray(rawSections) ? rawSections : [];
 
   return sectionTitles.map((title, index) => {
@@ -265,9 +266,18 @@ const normalizeSections = (rawSections, sectionTitles, city, locality) => {
     );
     const byIndex = safeSections[index];
     const source = byTitle || byIndex || {};
-    const body = normalize(source.body) || getDefaultBody(title, city, locality);
+    const body = normalize(source.body);
 
-    return { title, body };
+    if (!body) {
+      return { title, body: getDefaultBody(title, city, locality), confidence: "low", source: "default", drivers: [] };
+    }
+    return {
+      title,
+      body,
+      confidence: normalizeConfidence(source.confidence, "medium"),
+      source: "model",
+      drivers: normalizeDrivers(source.drivers, maxScore).sort(byImpact),
+    };
   });
 };
 
@@ -314,7 +324,8 @@ const normalizeNearbyLandmarks = (input) => {
       const name = normalize(item?.name);
       const category = normalizeLandmarkCategory(item?.category);
       const distanceKm = Math.round(Math.max(0, Number(item?.distanceKm) || 0) * 100) / 100;
-      return { name, category, distanceKm };
+      const coordinates = { lat: Number(item?.latitude ?? item?.coordinates?.lat), lng: Number(item?.longitude ?? item?.coordinates?.lng) };
+      return isGeoPoint(coordinates) ? { name, category, distanceKm, coordinates } : { name, category, distanceKm };
     })
     .filter((item) => item.name && item.category && !isLowConfidenceLandmark(item.name))
     .sort((a, b) => a.distanceKm - b.distanceKm || a.name.localeCompare(b.name))
@@ -323,24 +334,17 @@ const normalizeNearbyLandmarks = (input) => {
 
 const verifyNearbyLandmarks = async (city, locality, landmarks, key) => {
   const cleaned = normalizeNearbyLandmarks(landmarks);
-  if (!ai || cleaned.length === 0) return cleaned;
+  if (!llm || cleaned.length === 0) return cleaned;
 
   try {
-    const response = await generateContentWithModelFallback((model) => ({
-      model,
-      contents: `Validate this landmark list for locality accuracy.\nCity: "${city}"\nLocality: "${locality}"\nCandidate landmarks JSON: ${JSON.stringify(cleaned)}\nRules:\n1. Keep only landmarks that are genuinely associated with this locality/city context.\n2. Remove doubtful, generic, wrongly located, or unverifiable landmarks.\n3. Keep the same schema with keys: name, category, distanceKm.\n4. If uncertain about all landmarks, return an empty nearbyLandmarks array.\n5. Do not invent new landmarks.`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: LANDMARK_VERIFICATION_SCHEMA,
-        temperature: 0,
-        topP: 0,
-        topK: 1,
-        candidateCount: 1,
-        seed: stableSeed(`landmark-verify::${key}`),
-      },
-    }));
+    const text = await llm.generateJson({
+      prompt: `Validate this landmark list for locality accuracy.\nCity: "${city}"\nLocality: "${locality}"\nCandidate landmarks JSON: ${JSON.stringify(cleaned)}\nRules:\n1. Keep only landmarks that are genuinely associated with this locality/city context.\n2. Remove doubtful, generic, wrongly located, or unverifiable landmarks.\n3. Keep the same schema with keys: name, category, distanceKm, latitude, longitude.\n4. If uncertain about all landmarks, return an empty nearbyLandmarks array.\n5. Do not invent new landmarks.`,
+      schema: LANDMARK_VERIFICATION_SCHEMA,
+      seed: stableSeed(`landmark-verify::${key}`),
+      purpose: "landmarks",
+    });
 
-    const parsed = JSON.parse(response.text || '{"nearbyLandmarks": []}');
+    const parsed = JSON.parse(text || '{"nearbyLandmarks": []}');
     return normalizeNearbyLandmarks(parsed?.nearbyLandmarks);
   } catch (error) {
     console.error("Landmark verification error:", error);
@@ -348,33 +352,66 @@ const verifyNearbyLandmarks = async (city, locality, landmarks, key) => {
   }
 };
 
-const getCategoryRanges = () => ({
-  L: [115, 180],
-  O: [75, 135],
-  C: [80, 135],
-  A: [85, 140],
-  T: [80, 135],
-  E: [100, 175],
-});
+/**
+ * Attaches the resolved locality geometry and drops landmark coordinates that
+ * are implausibly far from it for the stated distance.
+ */
+const attachGeo = (analysis, geo) => {
+  if (!geo) return { ...analysis, geo: null };
+  const nearbyLandmarks = (analysis.nearbyLandmarks || []).map(({ coordinates, ...landmark }) =>
+    coordinates && haversineKm(geo.centroid, coordinates) <= landmark.distanceKm * 2 + 3 ? { ...landmark, coordinates } : landmark,
+  );
+  return { ...analysis, geo, nearbyLandmarks };
+};
 
-const fallbackLocateReport = (city, locality, key) => {
-  const seed = { value: stableSeed(`fallback::${key}`) || 137 };
-  const ranges = getCategoryRanges();
+/** Report-level provenance; anything short of a complete model report is degraded. */
+const buildProvenance = (generator, categories, reason = null) => {
+  const sections = categories.flatMap((category) => category.sections);
+  const defaultSections = sections.filter((section) => section.source === "default").length;
+  const defaultReason = defaultSections > 0 ? `${defaultSections} of ${sections.length} sections use generic placeholder text.` : null;
+  return {
+    generator,
+    degraded: generator !== "model" || defaultSections > 0,
+    reason: reason || defaultReason,
+    defaultSections,
+  };
+};
+
+const fallbackLocateReport = (city, locality, geo, reason) => {
+  const assessment = offlineScorer.score({ city, locality, geo });
 
   const categories = CATEGORY_ORDER.map((code) => {
     const conf = CATEGORY_CONFIG[code];
-    const [min, max] = ranges[code];
-    const score = seededInt(seed, min, max);
+    const { ratio, sections, confidence, parts } = assessment.categories[code];
+    const source = assessment.hasData ? "local-data" : "default";
+    const sectionList = conf.sections.map((title) => ({
+      title,
+      body: sections[title] || getDefaultBody(title, city, locality),
+      confidence: confidence[title] || "low",
+      source,
+      // Points are relative to the category midpoint, so drivers plus half the maximum add up to the score.
+      drivers: parts
+        .filter((part) => part.section === title)
+        .map((part) => ({ label: part.label, points: Math.round(part.weight * (part.ratio - 0.5) * conf.maxScore) }))
+        .filter((driver) => driver.points !== 0)
+        .sort(byImpact),
+    }));
 
     return {
       code,
       name: conf.name,
       maxScore: conf.maxScore,
-      score,
-      sections: conf.sections.map((title) => ({ title, body: getDefaultBody(title, city, locality) })),
+      score: Math.round(ratio * conf.maxScore),
+      sections: sectionList,
+      ...summarizeEvidence(sectionList, source),
     };
   });
 
+  const ranked = [...CATEGORY_ORDER].sort((a, b) => assessment.categories[b].ratio - assessment.categories[a].ratio);
+  const summariesOf = (codes) => [...new Set(codes.map((code) => assessment.categories[code].summary))].slice(0, 3);
+  const strengths = summariesOf(ranked.filter((code) => assessment.categories[code].ratio >= 0.5));
+  const watchOuts = summariesOf([...ranked].reverse().filter((code) => assessment.categories[code].ratio < 0.6));
+
   const totalScore = categories.reduce((sum, item) => sum + item.score, 0);
   const { grade, gradeLabel } = buildGrade(totalScore);
 
@@ -382,10 +419,10 @@ const fallbackLocateReport = (city, locality, key) => {
     id: 1,
     cityId: slugifyCity(city),
     cityName: city,
-    altName: "",
+    altName: assessment.cityEntry?.altNames[0] || "",
     localityName: locality,
-    state: "Unknown",
-    focus: "Residential + rental demand driven by local jobs access and infrastructure trajectory",
+    state: assessment.cityEntry?.state || "Unknown",
+    focus: "Offline estimate from city market indicators, nearby landmarks and infrastructure catalysts",
     evaluationDate: new Date().toISOString().slice(0, 10),
     categories,
     summary: {
@@ -393,20 +430,13 @@ const fallbackLocateReport = (city, locality, key) => {
       maxTotalScore: 1000,
       grade,
       gradeLabel,
-      headlineVerdict: `${locality}, ${city} is a ${gradeLabel.toLowerCase()} micro-market with selective long-term potential.`,
+      headlineVerdict: `${locality}, ${city} is a ${gradeLabel.toLowerCase()} micro-market on offline indicators.`,
     },
-    nearbyLandmarks: [],
+    provenance: buildProvenance("offline", categories, reason),
+    nearbyLandmarks: assessment.nearbyLandmarks,
     interpretation: {
-      strengths: [
-        `Demand in ${locality} benefits from proximity to employment catchments.`,
-        `Urban services and social infrastructure support end-user occupancy depth.`,
-        `Multiple price points allow strategy choice between yield and appreciation.`,
-      ],
-      watchOuts: [
-        "Infrastructure execution timing can delay expected value unlock.",
-        "Congestion and civic-service load can compress livability in peak periods.",
-        "Sub-market dispersion can create uneven performance across nearby pockets.",
-      ],
+      strengths: strengths.length > 0 ? strengths : [`No category in ${locality} scores above the midpoint on offline indicators.`],
+      watchOuts: watchOuts.length > 0 ? watchOuts : ["Offline indicators are city-level; locality premiums and discounts are not modelled."],
     },
     recommendations: {
       microMarketStrategy: [
@@ -418,7 +448,7 @@ const fallbackLocateReport = (city, locality, key) => {
       assetType: ["Mid-segment residential apartments with recurring rental demand."],
       holdingHorizon: "5-7 years",
     },
-    verdictText: `${locality} in ${city} offers viable long-horizon potential when entry pricing and micro-location are disciplined. The market is suitable for investors prioritizing steady compounding over speculative short-cycle flips.`,
+    verdictText: `${locality} in ${city} scores ${totalScore}/1000 on offline indicators: city market data, straight-line distances to indexed landmarks and nearby infrastructure catalysts. Treat it as a screening estimate; locality-level research should confirm pricing and micro-location before entry.`,
   };
 };
 
@@ -431,13 +461,20 @@ const normalizeLocateReport = (raw, city, locality) => {
     const conf = CATEGORY_CONFIG[code];
     const rawCat = categoriesByCode.get(code) || {};
     const score = Math.round(clampByMax(rawCat?.score, conf.maxScore));
+    const sections = normalizeSections(rawCat?.sections, conf.sections, city, locality, conf.maxScore);
+    const hasModelScore = Number.isFinite(Number(rawCat?.score ?? NaN));
 
     return {
       code,
       name: conf.name,
       maxScore: conf.maxScore,
       score,
-      sections: normalizeSections(rawCat?.sections, conf.sections, city, locality),
+      sections,
+      ...summarizeEvidence(
+        sections,
+        hasModelScore ? "model" : "default",
+        hasModelScore ? normalizeConfidence(rawCat?.confidence, undefined) : "low",
+      ),
     };
   });
 
@@ -465,6 +502,7 @@ const normalizeLocateReport = (raw, city, locality) => {
         normalize(raw?.headlineVerdict) ||
         `${locality}, ${city} is a ${gradeLabel.toLowerCase()} micro-market with infrastructure-linked upside.`,
     },
+    provenance: buildProvenance("model", categories),
     nearbyLandmarks: normalizeNearbyLandmarks(raw?.nearbyLandmarks),
     interpretation: {
       strengths: normalizeStringArray(raw?.interpretation?.strengths, "Structural demand from jobs and livability anchors supports this micro-market."),
@@ -510,24 +548,17 @@ const validateInput = async (city, locality, key) => {
     return { isValid: false, reason: "Invalid input. Enter a valid city and locality." };
   }
 
-  if (!ai) return { isValid: true, reason: "Validation skipped (no API key)." };
+  if (!llm) return { isValid: true, reason: "Validation skipped (no model provider)." };
 
   try {
-    const response = await generateContentWithModelFallback((model) => ({
-      model,
-      contents: `Validate this real-estate input.\nCity: "${city}"\nLocality: "${locality}"\nRules:\n1. Accept minor spelling mistakes and typos.\n2. Reject only clear gibberish/random/non-place input.\n3. Return JSON only.`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: VALIDATION_SCHEMA,
-        temperature: 0,
-        topP: 0,
-        topK: 1,
-        candidateCount: 1,
-        seed: stableSeed(`validate::${key}`),
-      },
-    }));
+    const text = await llm.generateJson({
+      prompt: `Validate this real-estate input.\nCity: "${city}"\nLocality: "${locality}"\nRules:\n1. Accept minor spelling mistakes and typos.\n2. Reject only clear gibberish/random/non-place input.\n3. Return JSON only.`,
+      schema: VALIDATION_SCHEMA,
+      seed: stableSeed(`validate::${key}`),
+      purpose: "validation",
+    });
 
-    const parsed = JSON.parse(response.text || '{"isValid": true, "reason": "Valid input"}');
+    const parsed = JSON.parse(text || '{"isValid": true, "reason": "Valid input"}');
     return {
       isValid: Boolean(parsed.isValid),
       reason: parsed.reason || (parsed.isValid ? "Valid input." : "Invalid input."),
@@ -539,28 +570,22 @@ const validateInput = async (city, locality, key) => {
 };
 
 const detectAmbiguity = async (city, locality, key) => {
-  if (!ai) return { isAmbiguous: false, suggestedCities: [] };
+  if (!llm) return { isAmbiguous: false, suggestedCities: [] };
 
   const query = `${locality} ${city}`.trim();
-  const response = await generateContentWithModelFallback((model) => ({
-    model,
-    contents: `Determine if "${query}" is ambiguous geographically. If this locality can refer to multiple cities, return isAmbiguous true with suggestedCities. If specific enough, return isAmbiguous false.`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: MATCH_SCHEMA,
-      temperature: 0,
-      topP: 0,
-      topK: 1,
-      candidateCount: 1,
-      seed: stableSeed(`match::${key}`),
-    },
-  }));
+  const text = await llm.generateJson({
+    prompt: `Determine if "${query}" is ambiguous geographically. If this locality can refer to multiple cities, return isAmbiguous true with suggestedCities. If specific enough, return isAmbiguous false.`,
+    schema: MATCH_SCHEMA,
+    seed: stableSeed(`match::${key}`),
+    purpose: "ambiguity",
+  });
 
-  return JSON.parse(response.text || '{"isAmbiguous": false, "suggestedCities": []}');
+  return JSON.parse(text || '{"isAmbiguous": false, "suggestedCities": []}');
 };
 
-const analyze = async (city, locality, key) => {
-  if (!ai) return fallbackLocateReport(city, locality, key);
+const analyze = async (city, locality, key, geo, onStage = () => {}, signal) => {
+  onStage("report");
+  if (!llm) return fallbackLocateReport(city, locality, geo, "No model provider is configured; the report was scored offline.");
 
   const prompt = `You are an urban economics and real-estate intelligence engine.
 Generate a LOCATE Score Report (out of 1000) for Locality: ${locality}, City: ${city}.
@@ -577,28 +602,27 @@ C: Intra-City Connectivity, Regional Connectivity
 A: Lifestyle, Social Infra, Gentrification
 T: Prices & Yields, Market Behaviour
 E: Supply, Demand, Absorption
+For every category and section include confidence: "high", "medium" or "low", reflecting how well-established the underlying facts are.
+For every section include 1-3 drivers: { label, points }, where label names a concrete factor and points is its rough signed contribution to the category score relative to half the category max (negative for factors that pull the score down).
 For nearbyLandmarks:
 - Return 6-10 real nearby landmarks for this exact locality only.
 - Prefer categories: Mall, University, Metro Station, Hospital, Airport, School, Park, Railway Station, IT Park.
 - Include distanceKm as realistic approximate road distance.
+- Include latitude and longitude only when you know the landmark's location; omit them otherwise.
 - If uncertain about accuracy, return an empty array.
 Keep tone professional and investment-grade.`;
 
-  const response = await generateContentWithModelFallback((model) => ({
-    model,
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: MODEL_REPORT_SCHEMA,
-      temperature: 0,
-      topP: 0,
-      topK: 1,
-      candidateCount: 1,
-      seed: stableSeed(`analysis::${key}`),
-    },
-  }));
+  const text = await llm.generateJson({
+    prompt,
+    schema: MODEL_REPORT_SCHEMA,
+    seed: stableSeed(`analysis::${key}`),
+    signal,
+    purpose: "report",
+  });
 
-  const parsed = JSON.parse(response.text || "{}");
+  throwIfAborted(signal);
+  const parsed = JSON.parse(text || "{}");
+  onStage("landmarks");
   parsed.nearbyLandmarks = await verifyNearbyLandmarks(
     city,
     locality,
@@ -608,13 +632,26 @@ Keep tone professional and investment-grade.`;
   return normalizeLocateReport(parsed, city, locality);
 };
 
-const processRequest = async (item) => {
+const throwIfAborted = (signal) => {
+  if (signal?.aborted) {
+    const error = new Error("Job cancelled.");
+    error.name = "AbortError";
+    throw error;
+  }
+};
+
+const processRequest = async (item, onStage = () => {}, signal) => {
   const key = getInputKey(item.city, item.locality);
 
-  const [validation, ambiguity] = await Promise.all([
-    validateInput(item.city, item.locality, key),
-    detectAmbiguity(item.city, item.locality, key),
-  ]);
+  throwIfAborted(signal);
+  // Both checks run in parallel; the stage moves on to "ambiguity" once validation settles.
+  onStage("validation");
+  const ambiguityPromise = detectAmbiguity(item.city, item.locality, key);
+  // Awaited below; this only keeps an early rejection from going unhandled meanwhile.
+  ambiguityPromise.catch(() => {});
+  const validation = await validateInput(item.city, item.locality, key);
+  onStage("ambiguity");
+  const ambiguity = await ambiguityPromise;
 
   if (!validation.isValid) {
     return {
@@ -624,6 +661,7 @@ const processRequest = async (item) => {
     };
   }
 
+  throwIfAborted(signal);
   if (ambiguity.isAmbiguous && Array.isArray(ambiguity.suggestedCities) && ambiguity.suggestedCities.length > 1) {
     return {
       status: "needs_clarification",
@@ -633,52 +671,528 @@ const processRequest = async (item) => {
     };
   }
 
-  const result = await analyze(item.city, item.locality, key);
+  throwIfAborted(signal);
+  const result = await analyze(item.city, item.locality, key, item.geo, onStage, signal);
   return { status: "done", result, error: null, suggestedCities: [] };
 };
 
-app.get("/api/ping", (req, res) => {
+const isRetryableModelError = (error) => {
+  // A report that fails the shared schema would fail again: the retry reuses the same seed.
+  if (error?.name === "AbortError" || error?.name === "SchemaError") return false;
+  const status = Number(error?.status || error?.code || 0);
+  if (status === 429) return true;
+  if (status >= 400 && status < 500) return false;
+  return true;
+};
+
+const toReply = (item, profile = getScoringProfile()) => ({
+  id: item.id,
+  status: item.status,
+  state: item.state,
+  stage: item.stage || (item.status === "pending" ? "queued" : "done"),
+  result: item.result ? applyScoringProfile(item.result, profile) : null,
+  error: item.error,
+  suggestedCities: item.suggestedCities || [],
+});
+
+const resolveProfile = (req, res) => {
+  const profile = getScoringProfile(normalize(String(req.query.profile || "")));
+  if (!profile) {
+    res.status(400).json({ error: `Unknown scoring profile. Use one of: ${SCORING_PROFILES.map((p) => p.id).join(", ")}.` });
+  }
+  return profile;
+};
+
+const runJob = async (item, { signal, onStage }) => {
+  const processed = await processRequest(item, onStage, signal);
+  // Rejected input does not use up the key's daily analyses.
+  if (processed.status === "invalid_input") {
+    usageLedger.record({ type: "analysis-refund", requestId: item.id, ...item.owner, city: item.city, locality: item.locality });
+  }
+  if (processed.status !== "done" || !processed.result) return processed;
+  // A report that does not match the shared schema fails the job rather than being stored and served.
+  const result = parse(LocationAnalysisSchema, attachGeo(processed.result, item.geo), { label: "Generated report" });
+
+  try {
+    const saved = await reportStore.saveReport({
+      key: item.key,
+      city: item.city,
+      locality: item.locality,
+      analysis: result,
+    });
+    return { ...processed, result: { ...result, reportId: saved.reportId } };
+  } catch (error) {
+    console.error("Report store error:", error);
+    return { ...processed, result };
+  }
+};
+
+const jobQueue = createJobQueue({
+  registry: store,
+  keyIndex: inputKeyMap,
+  concurrency: JOB_CONCURRENCY,
+  maxRetries: JOB_MAX_RETRIES,
+  retryBaseMs: JOB_RETRY_BASE_MS,
+  isRetryable: isRetryableModelError,
+  // Model calls made while the job runs are billed to the key that started it.
+  run: (item, context) => usageContext.run({ requestId: item.id, account: item.owner }, () => runJob(item, context)),
+  onFailed: (item, error) => ({
+    status: "done",
+    result: attachGeo(
+      fallbackLocateReport(
+        item.city,
+        item.locality,
+        item.geo,
+        `The model failed (${String(error?.message || "unknown error").slice(0, 160)}); the report was scored offline.`,
+      ),
+      item.geo,
+    ),
+    error: "Model unavailable. Returned fallback response.",
+    suggestedCities: [],
+  }),
+  onUpdate: (item) => {
+    (stageListeners.get(item.id) || new Set()).forEach((listener) => listener(item));
+  },
+});
+
+api.get("/ping", (req, res) => {
   res.json({ ok: true, message: "pong" });
 });
 
 app.get("/", (req, res) => {
   res.json({
     message: "API server running",
-    endpoints: ["POST /api/input", "GET /api/reply/:id"],
+    docs: `${API_V1_PREFIX}/openapi.json`,
+    endpoints: listEndpoints(),
+  });
+});
+
+/**
+ * Queues an analysis for a city/locality, or reuses the latest stored report
+ * when there is no job for it in memory and `refresh` is not set. A `clientId`
+ * attaches the caller to the job, which is cancelled once all callers release it.
+ * Only a new job counts against the `account`'s daily quota; joining a running
+ * job or reusing a report is free.
+ */
+const submitInput = async (city, locality, { refresh = false, clientId, account } = {}) => {
+  const key = getInputKey(city, locality);
+  const id = crypto.createHash("sha256").update(key).digest("hex");
+  const geo = await geocoder.geocode(city, locality).catch((error) => {
+    console.error("Geocoder error:", error);
+    return null;
   });
+
+  if (!refresh && !inputKeyMap.has(key)) {
+    const stored = await reportStore.getLatestReport(key).catch((error) => {
+      console.error("Report store error:", error);
+      return null;
+    });
+    if (stored) {
+      const result = stored.geo ? stored : attachGeo(stored, geo);
+      return jobQueue.restore(key, { id, city, locality, geo, status: "done", result });
+    }
+  }
+
+  const existing = jobQueue.get(id);
+  const startsNewJob = !existing || existing.state === "cancelled" || (refresh && isTerminalState(existing.state));
+  if (startsNewJob) auth.assertQuota(account);
+
+  const owner = account ? { keyId: account.keyId, workspace: account.workspace } : null;
+  const job = jobQueue.enqueue(key, { id, city, locality, geo, owner }, { force: refresh });
+  if (startsNewJob) {
+    usageLedger.record({ type: "analysis", requestId: job.id, ...owner, city, locality, refresh });
+  }
+  jobQueue.attach(job.id, clientId);
+  return job;
+};
+
+/** Batch rows hold their jobs for the whole run, so a web client abandoning the same locality never cancels them. */
+const BATCH_CLIENT_ID = "batch-runner";
+
+const batchRunner = createBatchRunner({
+  submit: (city, locality, owner) => submitInput(city, locality, { clientId: BATCH_CLIENT_ID, account: owner }),
+  waitFor: jobQueue.waitFor,
+  getKey: getInputKey,
+  ratePerMinute: BATCH_RATE_PER_MINUTE,
+  maxRows: BATCH_MAX_ROWS,
+  retentionMs: BATCH_RETENTION_MS,
+  maxFinished: BATCH_MAX_FINISHED,
 });
 
-app.post("/api/input", (req, res) => {
+const toBatchReply = (batch, profile) => {
+  const rows = batch.rows.map(({ result, ...row }) => {
+    if (!result) return { ...row, result: null };
+    const weighted = applyScoringProfile(result, profile);
+    return {
+      ...row,
+      result: {
+        reportId: weighted.reportId,
+        totalScore: weighted.summary.totalScore,
+        maxTotalScore: weighted.summary.maxTotalScore,
+        grade: weighted.summary.grade,
+        gradeLabel: weighted.summary.gradeLabel,
+        categories: weighted.categories.map(({ code, score, maxScore }) => ({ code, score, maxScore })),
+      },
+    };
+  });
+
+  return {
+    batchId: batch.id,
+    state: batch.state,
+    createdAt: batch.createdAt,
+    finishedAt: batch.finishedAt,
+    total: rows.length,
+    completed: rows.filter((row) => row.status !== "pending").length,
+    profile: profile.name,
+    rows,
+  };
+};
+
+api.post("/input", async (req, res) => {
   const city = normalize(req.body?.city);
   const locality = normalize(req.body?.locality ?? req.body?.sector);
+  const refresh = req.body?.refresh === true;
+  const clientId = normalize(String(req.body?.clientId || "")) || undefined;
 
   if (!city || !locality) {
     return res.status(400).json({ error: "Both city and locality are required." });
   }
 
-  const key = getInputKey(city, locality);
-  if (inputKeyMap.has(key)) {
-    const existingId = inputKeyMap.get(key);
-    const existing = store.get(existingId);
-    return res.json({ id: existingId, status: existing?.status || "pending" });
+  try {
+    const job = await submitInput(city, locality, { refresh, clientId, account: req.account });
+    return res.json({ id: job.id, status: job.status, state: job.state });
+  } catch (error) {
+    if (error?.status === 429) return res.status(429).json({ error: error.message });
+    throw error;
   }
+});
 
-  const id = crypto.createHash("sha256").update(key).digest("hex");
-  inputKeyMap.set(key, id);
-  store.set(id, {
-    id,
-    city,
-    locality,
-    status: "pending",
-    result: null,
-    error: null,
-    suggestedCities: [],
+/** With `?client=`, only that client lets go; the job is cancelled once no client is left. */
+api.delete("/input/:id", (req, res) => {
+  const clientId = normalize(String(req.query.client || ""));
+  const job = clientId ? jobQueue.release(req.params.id, clientId) : jobQueue.cancel(req.params.id);
+  if (!job) {
+    return res.status(404).json({ error: "id not found" });
+  }
+  return res.json({ id: job.id, status: job.status, state: job.state });
+});
+
+/** Default and longest time `POST /api/v1/analyze` holds the request open before answering 202. */
+const ANALYZE_WAIT_MS = 30000;
+const ANALYZE_MAX_WAIT_MS = 120000;
+
+/** Model calls made outside a job are billed to the caller, without a request id. */
+const asCaller = (req, run) => usageContext.run({ requestId: null, account: req.account }, run);
+
+/**
+ * Synchronous analysis: answers 200 with the finished reply, or 202 with the
+ * pending one once `waitMs` passes. Hanging up before the answer releases the
+ * job like a closed stream; after a 202 the job keeps running for polling.
+ */
+apiV1.post("/analyze", async (req, res) => {
+  const profile = resolveProfile(req, res);
+  if (!profile) return;
+
+  const city = normalize(req.body?.city);
+  const locality = normalize(req.body?.locality);
+  const refresh = req.body?.refresh === true;
+  const waitMs = Math.min(ANALYZE_MAX_WAIT_MS, Math.max(0, Number(req.body?.waitMs ?? ANALYZE_WAIT_MS) || 0));
+
+  if (!city || !locality) {
+    return res.status(400).json({ error: "Both city and locality are required." });
+  }
+
+  const clientId = `analyze-${crypto.randomUUID()}`;
+  let job;
+  try {
+    job = await submitInput(city, locality, { refresh, clientId, account: req.account });
+  } catch (error) {
+    if (error?.status === 429) return res.status(429).json({ error: error.message });
+    throw error;
+  }
+
+  res.on("close", () => {
+    if (!res.writableEnded) jobQueue.release(job.id, clientId, { graceMs: CLIENT_RELEASE_GRACE_MS });
   });
 
-  return res.json({ id, status: "pending" });
+  let timer;
+  const finished = await Promise.race([
+    jobQueue.waitFor(job.id),
+    new Promise((resolve) => {
+      timer = setTimeout(resolve, waitMs, null);
+    }),
+  ]);
+  clearTimeout(timer);
+  if (res.destroyed) return;
+
+  const item = finished || store.get(job.id);
+  if (finished) {
+    return res.json(toReply(item, profile));
+  }
+  res.set("Location", `${API_V1_PREFIX}/reply/${item.id}`);
+  return res.status(202).json(toReply(item, profile));
 });
 
-app.get("/api/reply/:id", async (req, res) => {
+apiV1.post("/validate", async (req, res) => {
+  const city = normalize(req.body?.city);
+  const locality = normalize(req.body?.locality);
+  if (!city || !locality) {
+    return res.status(400).json({ error: "Both city and locality are required." });
+  }
+
+  const validation = await asCaller(req, () => validateInput(city, locality, getInputKey(city, locality)));
+  return res.json(validation);
+});
+
+apiV1.post("/ambiguity", async (req, res) => {
+  const city = normalize(req.body?.city);
+  const locality = normalize(req.body?.locality);
+  if (!city || !locality) {
+    return res.status(400).json({ error: "Both city and locality are required." });
+  }
+
+  try {
+    const ambiguity = await asCaller(req, () => detectAmbiguity(city, locality, getInputKey(city, locality)));
+    return res.json({
+      isAmbiguous: Boolean(ambiguity?.isAmbiguous),
+      suggestedCities: Array.isArray(ambiguity?.suggestedCities) ? ambiguity.suggestedCities.map(String) : [],
+    });
+  } catch (error) {
+    console.error("Ambiguity check error:", error);
+    return res.status(502).json({ error: "Ambiguity check is unavailable right now. Try again." });
+  }
+});
+
+apiV1.get("/openapi.json", (req, res) => {
+  res.json(openApiDocument);
+});
+
+api.get("/queue", (req, res) => {
+  res.json(jobQueue.stats());
+});
+
+const isOwnBatch = (batch, account) => batch.owner?.workspace === account?.workspace;
+
+api.post("/batch", (req, res) => {
+  const profile = resolveProfile(req, res);
+  if (!profile) return;
+
+  const rows = Array.isArray(req.body?.rows)
+    ? req.body.rows.map((item, index) => ({
+        row: index + 1,
+        city: normalize(item?.city),
+        locality: normalize(item?.locality ?? item?.sector),
+      }))
+    : parseBatchCsv(req.body?.csv);
+
+  if (auth.remainingAnalyses(req.account) <= 0) {
+    return res.status(429).json({ error: "Daily analysis quota reached. It resets at 00:00 UTC." });
+  }
+
+  try {
+    const batch = batchRunner.create(rows, { owner: req.account });
+    return res.status(202).json(toBatchReply(batch, profile));
+  } catch (error) {
+    return res.status(400).json({ error: error.message });
+  }
+});
+
+api.get("/batch/:id", (req, res) => {
+  const profile = resolveProfile(req, res);
+  if (!profile) return;
+
+  const batch = batchRunner.get(req.params.id);
+  if (!batch || !isOwnBatch(batch, req.account)) {
+    return res.status(404).json({ error: "batch not found" });
+  }
+  return res.json(toBatchReply(batch, profile));
+});
+
+api.delete("/batch/:id", (req, res) => {
+  const existing = batchRunner.get(req.params.id);
+  const batch = existing && isOwnBatch(existing, req.account) ? batchRunner.cancel(req.params.id) : null;
+  if (!batch) {
+    return res.status(404).json({ error: "batch not found" });
+  }
+  return res.json(toBatchReply(batch, getScoringProfile()));
+});
+
+// Saved reports are shared by every workspace, like the stored reports `submitInput` reuses.
+api.get("/reports", async (req, res) => {
+  const city = normalize(String(req.query.city || ""));
+  const locality = normalize(String(req.query.locality || ""));
+
+  if (!city || !locality) {
+    return res.status(400).json({ error: "Both city and locality are required." });
+  }
+
+  const reports = await reportStore.listReports(getInputKey(city, locality));
+  return res.json({ reports });
+});
+
+api.get("/reports/:reportId", async (req, res) => {
+  const profile = resolveProfile(req, res);
+  if (!profile) return;
+
+  const report = await reportStore.getReport(req.params.reportId);
+  if (!report) {
+    return res.status(404).json({ error: "report not found" });
+  }
+  return res.json({ report: applyScoringProfile(report, profile) });
+});
+
+const toShareReply = ({ shareId, reportId, profileId, token, createdAt, expiresAt, revokedAt, views, lastViewedAt }) => ({
+  shareId,
+  reportId,
+  profileId,
+  token,
+  createdAt,
+  expiresAt,
+  revokedAt,
+  views,
+  lastViewedAt,
+});
+
+api.post("/shares", async (req, res) => {
+  const reportId = normalize(String(req.body?.reportId || ""));
+  const profile = getScoringProfile(normalize(String(req.body?.profile || "")));
+  if (!reportId) {
+    return res.status(400).json({ error: "reportId is required." });
+  }
+  if (!profile) {
+    return res.status(400).json({ error: `Unknown scoring profile. Use one of: ${SCORING_PROFILES.map((p) => p.id).join(", ")}.` });
+  }
+
+  const report = await reportStore.getReport(reportId);
+  if (!report) {
+    return res.status(404).json({ error: "report not found" });
+  }
+
+  const share = await shareService.create({
+    reportId,
+    profileId: profile.id,
+    workspace: req.account.workspace,
+    expiresInDays: req.body?.expiresInDays,
+  });
+  return res.status(201).json({ share: toShareReply(share) });
+});
+
+api.get("/shares", async (req, res) => {
+  const reportId = normalize(String(req.query.reportId || ""));
+  if (!reportId) {
+    return res.status(400).json({ error: "reportId is required." });
+  }
+  const shares = await shareService.listForReport(reportId, { workspace: req.account.workspace });
+  return res.json({ shares: shares.map(toShareReply) });
+});
+
+api.delete("/shares/:shareId", async (req, res) => {
+  if (!SHARE_ID_PATTERN.test(req.params.shareId)) {
+    return res.status(404).json({ error: "share not found" });
+  }
+  const share = await shareService.revoke(req.params.shareId, { workspace: req.account.workspace });
+  if (!share) {
+    return res.status(404).json({ error: "share not found" });
+  }
+  return res.json({ share: toShareReply(share) });
+});
+
+const SHARE_ERRORS = {
+  invalid: [404, "This share link is not valid."],
+  expired: [410, "This share link has expired."],
+  revoked: [410, "This share link has been revoked."],
+};
+
+/** Read-only view of a shared report; every successful read counts as a view. */
+api.get("/shared/:token", async (req, res) => {
+  const { status, share } = await shareService.open(req.params.token);
+  if (status !== "ok") {
+    const [code, error] = SHARE_ERRORS[status];
+    return res.status(code).json({ error, status });
+  }
+
+  const report = await reportStore.getReport(share.reportId);
+  if (!report) {
+    return res.status(404).json({ error: "The shared report is no longer available.", status: "invalid" });
+  }
+  const profile = getScoringProfile(share.profileId) || getScoringProfile();
+  return res.json({
+    report: applyScoringProfile(report, profile),
+    share: { expiresAt: share.expiresAt, views: share.views },
+  });
+});
+
+/** The caller's workspace usage on a UTC day (default today), with the calling key's limits. */
+api.get("/usage", async (req, res) => {
+  const day = String(req.query.date || new Date().toISOString().slice(0, 10));
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(day)) {
+    return res.status(400).json({ error: "date must be YYYY-MM-DD." });
+  }
+
+  const { keyId, workspace, ratePerMinute, dailyAnalyses } = req.account;
+  const usage = await usageLedger.summarize({ day, workspace });
+  const remaining = auth.remainingAnalyses(req.account);
+  return res.json({
+    ...usage,
+    key: {
+      keyId,
+      ratePerMinute,
+      dailyAnalyses,
+      remainingAnalysesToday: Number.isFinite(remaining) ? remaining : null,
+    },
+  });
+});
+
+api.get("/geocode", async (req, res) => {
+  const city = normalize(String(req.query.city || ""));
+  const locality = normalize(String(req.query.locality || ""));
+
+  if (!city || !locality) {
+    return res.status(400).json({ error: "Both city and locality are required." });
+  }
+
+  const geo = await geocoder.geocode(city, locality);
+  if (!geo) {
+    return res.status(404).json({ error: "location not found" });
+  }
+  return res.json({ geo });
+});
+
+api.get("/reverse-geocode", async (req, res) => {
+  const point = { lat: Number(req.query.lat), lng: Number(req.query.lng) };
+  if (!isGeoPoint(point)) {
+    return res.status(400).json({ error: "Valid lat and lng query parameters are required." });
+  }
+
+  const place = await geocoder.reverse(point);
+  if (!place) {
+    return res.status(404).json({ error: "No known city or locality near this location." });
+  }
+  return res.json({ place });
+});
+
+api.get("/profiles", (req, res) => {
+  res.json({ profiles: SCORING_PROFILES });
+});
+
+api.get("/reply/:id", (req, res) => {
+  const profile = resolveProfile(req, res);
+  if (!profile) return;
+
+  const item = store.get(req.params.id);
+
+  if (!item) {
+    return res.status(404).json({ error: "id not found" });
+  }
+
+  jobQueue.attach(item.id, normalize(String(req.query.client || "")));
+  return res.json(toReply(item, profile));
+});
+
+api.get("/stream/:id", (req, res) => {
+  const profile = resolveProfile(req, res);
+  if (!profile) return;
+
   const { id } = req.params;
   const item = store.get(id);
 
@@ -686,48 +1200,54 @@ app.get("/api/reply/:id", async (req, res) => {
     return res.status(404).json({ error: "id not found" });
   }
 
+  res.set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  res.flushHeaders();
+
+  const send = (event, data) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
   if (item.status !== "pending") {
-    return res.json({
-      id,
-      status: item.status,
-      result: item.result,
-      error: item.error,
-      suggestedCities: item.suggestedCities || [],
-    });
+    send("reply", toReply(item, profile));
+    return res.end();
   }
 
-  try {
-    const processed = await processRequest(item);
-    const updated = { ...item, ...processed };
-    store.set(id, updated);
+  const clientId = normalize(String(req.query.client || ""));
+  jobQueue.attach(id, clientId);
 
-    return res.json({
-      id,
-      status: updated.status,
-      result: updated.result,
-      error: updated.error,
-      suggestedCities: updated.suggestedCities || [],
-    });
-  } catch (error) {
-    console.error("Processing error:", error);
-    const fallback = fallbackLocateReport(item.city, item.locality, getInputKey(item.city, item.locality));
-    const updated = {
-      ...item,
-      status: "done",
-      result: fallback,
-      error: "Model unavailable. Returned fallback response.",
-      suggestedCities: [],
-    };
-    store.set(id, updated);
+  let lastStage = null;
+  const listener = (updated) => {
+    if (updated.status !== "pending") return;
+    if (updated.stage !== lastStage) {
+      lastStage = updated.stage;
+      send("stage", { id, stage: updated.stage, state: updated.state });
+    }
+  };
+  const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), 15000);
+  const listeners = stageListeners.get(id) || new Set();
+  listeners.add(listener);
+  stageListeners.set(id, listeners);
+
+  const cleanup = () => {
+    clearInterval(heartbeat);
+    listeners.delete(listener);
+    if (listeners.size === 0) stageListeners.delete(id);
+  };
+  req.on("close", () => {
+    cleanup();
+    // A dropped stream may be a client falling back to polling, so give it time to come back.
+    if (clientId && !res.writableEnded) jobQueue.release(id, clientId, { graceMs: CLIENT_RELEASE_GRACE_MS });
+  });
 
-    return res.json({
-      id,
-      status: updated.status,
-      result: updated.result,
-      error: updated.error,
-      suggestedCities: updated.suggestedCities,
-    });
-  }
+  listener(item);
+  jobQueue.waitFor(id).then((updated) => {
+    if (res.writableEnded) return;
+    send("reply", toReply(updated, profile));
+    cleanup();
+    res.end();
+  });
 });
 
 app.listen(PORT, () => {
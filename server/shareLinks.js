@@ -0,0 +1,172 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Share ids are 12 random bytes in base64url; anything else was never minted here. */
+export const SHARE_ID_PATTERN = /^[A-Za-z0-9_-]{16}$/;
+
+/**
+ * Share records are `{ shareId, reportId, profileId, workspace, createdAt,
+ * expiresAt, revokedAt, views, lastViewedAt }` with ISO timestamps. Stores only load and
+ * save whole records; the service owns every change to them.
+ */
+export const createMemoryShareStore = () => {
+  const records = new Map();
+  return {
+    load: async (shareId) => structuredClone(records.get(shareId) || null),
+    save: async (record) => {
+      records.set(record.shareId, structuredClone(record));
+    },
+    list: async () => [...records.values()].map((record) => structuredClone(record)),
+  };
+};
+
+export const createFileShareStore = ({ dir }) => {
+  const root = path.resolve(dir);
+  /** Null for ids that would resolve outside `dir`. */
+  const fileFor = (shareId) => {
+    const file = path.resolve(root, `${shareId}.json`);
+    return path.dirname(file) === root ? file : null;
+  };
+
+  return {
+    load: async (shareId) => {
+      if (!fileFor(shareId)) return null;
+      try {
+        return JSON.parse(await fs.readFile(fileFor(shareId), "utf8"));
+      } catch (error) {
+        if (error?.code === "ENOENT") return null;
+        throw error;
+      }
+    },
+    save: async (record) => {
+      if (!fileFor(record.shareId)) throw new Error(`Refusing to save share with invalid id "${record.shareId}".`);
+      // Swap files atomically so readers never see partial JSON.
+      await fs.mkdir(dir, { recursive: true });
+      const tmpFile = `${fileFor(record.shareId)}.${process.pid}.tmp`;
+      await fs.writeFile(tmpFile, JSON.stringify(record, null, 2));
+      await fs.rename(tmpFile, fileFor(record.shareId));
+    },
+    list: async () => {
+      const files = await fs.readdir(dir).catch((error) => {
+        if (error?.code === "ENOENT") return [];
+        throw error;
+      });
+      const records = await Promise.all(
+        files.filter((file) => file.endsWith(".json")).map((file) => fs.readFile(path.join(dir, file), "utf8").then(JSON.parse)),
+      );
+      return records;
+    },
+  };
+};
+
+export const createShareStore = ({ driver = "file", dir }) => {
+  if (driver === "memory") return createMemoryShareStore();
+  if (driver === "file") return createFileShareStore({ dir });
+  throw new Error(`Unknown share store driver "${driver}". Use "file" or "memory".`);
+};
+
+/**
+ * Mints and checks read-only share tokens. A token is a base64url payload
+ * (`sid`, `rid`, `exp`) plus its HMAC-SHA256 signature, so a tampered or
+ * forged link fails before any lookup; the stored record still decides
+ * revocation and counts views.
+ */
+export const createShareService = ({ store, secret, defaultTtlDays = 7, maxTtlDays = 90 }) => {
+  // Writes are read-modify-write, so run them one at a time.
+  let writeChain = Promise.resolve();
+  const serialize = (task) => {
+    const run = writeChain.then(task);
+    writeChain = run.catch(() => {});
+    return run;
+  };
+
+  const sign = (payload) => crypto.createHmac("sha256", secret).update(payload).digest("base64url");
+
+  const toToken = (record) => {
+    const payload = Buffer.from(
+      JSON.stringify({ sid: record.shareId, rid: record.reportId, exp: Date.parse(record.expiresAt) }),
+    ).toString("base64url");
+    return `${payload}.${sign(payload)}`;
+  };
+
+  const readToken = (token) => {
+    const [payload, signature, extra] = String(token || "").split(".");
+    if (!payload || !signature || extra !== undefined) return null;
+
+    const expected = Buffer.from(sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+    try {
+      const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+      return claims?.sid && claims?.rid && Number.isFinite(claims?.exp) ? claims : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const withToken = (record) => ({ ...record, token: toToken(record) });
+
+  // Records written before workspaces existed belong to the default one.
+  const inWorkspace = (record, workspace) => !workspace || (record.workspace || "default") === workspace;
+
+  const create = ({ reportId, profileId, workspace = "default", expiresInDays }) => {
+    const days = Math.min(maxTtlDays, Math.max(1, Math.round(Number(expiresInDays) || defaultTtlDays)));
+    const now = Date.now();
+    const record = {
+      shareId: crypto.randomBytes(12).toString("base64url"),
+      reportId,
+      profileId,
+      workspace,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + days * DAY_MS).toISOString(),
+      revokedAt: null,
+      views: 0,
+      lastViewedAt: null,
+    };
+    return serialize(() => store.save(record)).then(() => withToken(record));
+  };
+
+  /**
+   * Checks a token and counts the view. Resolves to `{ status, share }` where
+   * status is "ok", "invalid", "expired" or "revoked".
+   */
+  const open = (token) => {
+    const claims = readToken(token);
+    if (!claims) return Promise.resolve({ status: "invalid", share: null });
+
+    return serialize(async () => {
+      const record = await store.load(claims.sid);
+      if (!record || record.reportId !== claims.rid) return { status: "invalid", share: null };
+      if (record.revokedAt) return { status: "revoked", share: record };
+      if (Date.now() > Date.parse(record.expiresAt)) return { status: "expired", share: record };
+
+      const viewed = { ...record, views: record.views + 1, lastViewedAt: new Date().toISOString() };
+      await store.save(viewed);
+      return { status: "ok", share: viewed };
+    });
+  };
+
+  /** Revokes a share; with a `workspace`, only one created in that workspace. */
+  const revoke = (shareId, { workspace } = {}) =>
+    serialize(async () => {
+      const record = await store.load(shareId);
+      if (!record || !inWorkspace(record, workspace)) return null;
+      if (record.revokedAt) return withToken(record);
+
+      const revoked = { ...record, revokedAt: new Date().toISOString() };
+      await store.save(revoked);
+      return withToken(revoked);
+    });
+
+  const listForReport = async (reportId, { workspace } = {}) =>
+    (await store.list())
+      .filter((record) => record.reportId === reportId && inWorkspace(record, workspace))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(withToken);
+
+  return { create, open, revoke, listForReport };
+};
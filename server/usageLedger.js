@@ -0,0 +1,128 @@
+import { AsyncLocalStorage } from "async_hooks";
+import fsSync from "fs";
+import fs from "fs/promises";
+import path from "path";
+
+const toDay = (date = new Date()) => date.toISOString().slice(0, 10);
+
+/**
+ * Append-only record of usage. Entries are `{ type: "analysis" }`, one per
+ * analysis a key started, `{ type: "analysis-refund" }` when that analysis
+ * ended as invalid input and no longer counts, or `{ type: "model-call" }`,
+ * one per model request made while processing it. The file driver writes one
+ * JSON Lines file per UTC day.
+ */
+export const createUsageLedger = ({ driver = "file", dir }) => {
+  if (driver !== "file" && driver !== "memory") {
+    throw new Error(`Unknown usage ledger driver "${driver}". Use "file" or "memory".`);
+  }
+  const memory = new Map();
+  const analysisCounts = new Map();
+  const fileFor = (day) => path.join(dir, `${day}.jsonl`);
+  let appendChain = Promise.resolve();
+
+  const ANALYSIS_DELTAS = { analysis: 1, "analysis-refund": -1 };
+
+  const countAnalysis = (day, entry) => {
+    const delta = ANALYSIS_DELTAS[entry.type];
+    if (!delta) return;
+    const countKey = `${day}::${entry.keyId}`;
+    analysisCounts.set(countKey, Math.max(0, (analysisCounts.get(countKey) || 0) + delta));
+  };
+
+  // Quotas survive a restart: seed today's counts from the file written so far.
+  if (driver === "file") {
+    const today = toDay();
+    try {
+      fsSync
+        .readFileSync(fileFor(today), "utf8")
+        .split("\n")
+        .filter(Boolean)
+        .map((line) => JSON.parse(line))
+        .forEach((entry) => countAnalysis(today, entry));
+    } catch (error) {
+      if (error?.code !== "ENOENT") console.error("Usage ledger load error:", error);
+    }
+  }
+
+  const record = (entry) => {
+    const at = new Date();
+    const day = toDay(at);
+    const full = { at: at.toISOString(), ...entry };
+    countAnalysis(day, full);
+
+    if (driver === "memory") {
+      memory.set(day, [...(memory.get(day) || []), full]);
+      return Promise.resolve(full);
+    }
+    const run = appendChain.then(async () => {
+      await fs.mkdir(dir, { recursive: true });
+      await fs.appendFile(fileFor(day), `${JSON.stringify(full)}\n`);
+      return full;
+    });
+    appendChain = run.catch((error) => console.error("Usage ledger write error:", error));
+    return run;
+  };
+
+  const listDay = async (day) => {
+    if (driver === "memory") return memory.get(day) || [];
+    try {
+      const raw = await fs.readFile(fileFor(day), "utf8");
+      return raw.split("\n").filter(Boolean).map((line) => JSON.parse(line));
+    } catch (error) {
+      if (error?.code === "ENOENT") return [];
+      throw error;
+    }
+  };
+
+  const countAnalysesToday = (keyId) => analysisCounts.get(`${toDay()}::${keyId}`) || 0;
+
+  /** One workspace's usage on a UTC day, totalled per key. */
+  const summarize = async ({ day = toDay(), workspace }) => {
+    const entries = (await listDay(day)).filter((entry) => entry.workspace === workspace);
+    const byKey = {};
+    entries.forEach((entry) => {
+      const totals = (byKey[entry.keyId] ||= { analyses: 0, modelCalls: 0, failedModelCalls: 0, promptChars: 0, responseChars: 0 });
+      totals.analyses = Math.max(0, totals.analyses + (ANALYSIS_DELTAS[entry.type] || 0));
+      if (entry.type === "model-call") {
+        totals.modelCalls += 1;
+        if (!entry.ok) totals.failedModelCalls += 1;
+        totals.promptChars += entry.promptChars || 0;
+        totals.responseChars += entry.responseChars || 0;
+      }
+    });
+    return { day, workspace, byKey, entries };
+  };
+
+  return { record, countAnalysesToday, summarize };
+};
+
+/** Carries `{ requestId, account }` through a job so model calls can be attributed to it. */
+export const usageContext = new AsyncLocalStorage();
+
+/** Records every model call in the ledger against the job running in `usageContext`. */
+export const withUsageRecording = (provider, ledger) => ({
+  name: provider.name,
+  generateJson: async (request) => {
+    const context = usageContext.getStore() || {};
+    const started = Date.now();
+    const entry = {
+      type: "model-call",
+      requestId: context.requestId || null,
+      keyId: context.account?.keyId || null,
+      workspace: context.account?.workspace || null,
+      provider: provider.name,
+      purpose: request.purpose || null,
+      promptChars: request.prompt.length,
+    };
+
+    try {
+      const text = await provider.generateJson(request);
+      ledger.record({ ...entry, ok: true, responseChars: text.length, durationMs: Date.now() - started });
+      return text;
+    } catch (error) {
+      ledger.record({ ...entry, ok: false, error: String(error?.message || error).slice(0, 200), durationMs: Date.now() - started });
+      throw error;
+    }
+  },
+});
@@ -0,0 +1,301 @@
+// Generated by scripts/generate-api-client.mjs from server/openapi.js. Do not edit; run `npm run generate:api-client`.
+import type {
+  AmbiguityResult,
+  AnalysisStage,
+  BatchStatus,
+  LocationAnalysis,
+  LocationGeo,
+  ReportSummary,
+  ReversePlace,
+  ShareLink,
+  SharedReport,
+  ValidationResult,
+} from "../types";
+
+export interface ErrorReply {
+  error: string;
+}
+
+export interface LocationQuery {
+  city: string;
+  locality: string;
+}
+
+export interface AnalysisRequest {
+  city: string;
+  locality: string;
+  /** Re-run the analysis instead of reusing the latest stored report. */
+  refresh?: boolean;
+  /** Attaches the caller to the job; the job is cancelled once every attached client has released it. */
+  clientId?: string;
+}
+
+export interface AnalyzeRequest {
+  city: string;
+  locality: string;
+  /** Re-run the analysis instead of reusing the latest stored report. */
+  refresh?: boolean;
+  /** How long to wait for the result before answering 202 with the pending job. Defaults to 30000. */
+  waitMs?: number;
+}
+
+export interface AnalysisJob {
+  id: string;
+  status: "pending" | "done" | "invalid_input" | "needs_clarification" | "cancelled";
+  state: "queued" | "running" | "done" | "failed" | "cancelled";
+}
+
+export interface AnalysisReply {
+  id: string;
+  status: "pending" | "done" | "invalid_input" | "needs_clarification" | "cancelled";
+  state?: "queued" | "running" | "done" | "failed" | "cancelled";
+  stage?: AnalysisStage;
+  result: LocationAnalysis | null;
+  /** Set on failed replies, and on done replies that fell back to offline scoring. */
+  error: string | null;
+  suggestedCities: string[];
+}
+
+export interface QueueStats {
+  concurrency: number;
+  running: number;
+  queued: number;
+}
+
+export interface BatchRequest {
+  /** `city,locality` rows, with an optional header row. */
+  csv?: string;
+  rows?: Array<{ city: string; locality: string }>;
+}
+
+export interface ShareRequest {
+  reportId: string;
+  profile?: string;
+  expiresInDays?: number;
+}
+
+export interface ScoringProfile {
+  id: "balanced" | "end-user" | "yield-investor" | "developer";
+  name: string;
+  description: string;
+  weights: Record<string, number>;
+  gradeBands: Array<{
+    minScore: number;
+    grade: "A+" | "A" | "B+" | "B" | "C+" | "C" | "D";
+    gradeLabel: "Excellent" | "Very Strong" | "Strong" | "Stable" | "Moderate" | "Weak";
+  }>;
+}
+
+export interface UsageTotals {
+  analyses: number;
+  modelCalls: number;
+  failedModelCalls: number;
+  promptChars: number;
+  responseChars: number;
+}
+
+export interface UsageEntry {
+  at: string;
+  type: "analysis" | "analysis-refund" | "model-call";
+  requestId: string | null;
+  keyId: string | null;
+  workspace: string | null;
+  [key: string]: unknown;
+}
+
+export interface UsageReport {
+  day: string;
+  workspace: string;
+  byKey: Record<string, UsageTotals>;
+  entries: UsageEntry[];
+  key: {
+    keyId: string;
+    ratePerMinute: number | null;
+    dailyAnalyses: number | null;
+    remainingAnalysesToday: number | null;
+  };
+}
+
+export interface ApiClientConfig {
+  /** Server origin, without the API prefix. */
+  baseUrl: string;
+  /** Headers sent with every request, e.g. credentials. */
+  getHeaders?: () => Record<string, string>;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  /** Lets the request finish after the page unloads. */
+  keepalive?: boolean;
+}
+
+/** Rejections carry the HTTP status next to the server's error message. */
+export type ApiError = Error & { status: number };
+
+export const API_PREFIX = "/api/v1";
+
+type QueryValue = string | number | boolean | undefined;
+
+const toQueryString = (query: Record<string, QueryValue>) => {
+  const search = new URLSearchParams();
+  Object.entries(query).forEach(([name, value]) => {
+    if (value !== undefined && value !== "") search.set(name, String(value));
+  });
+  const text = search.toString();
+  return text ? `?${text}` : "";
+};
+
+export const createApiClient = ({ baseUrl, getHeaders = () => ({}) }: ApiClientConfig) => {
+  const toUrl = (path: string, query: Record<string, QueryValue>) => `${baseUrl}${API_PREFIX}${path}${toQueryString(query)}`;
+
+  const request = async <T>(
+    method: string,
+    path: string,
+    { query, body }: { query: Record<string, QueryValue>; body?: unknown },
+    options: RequestOptions = {},
+  ): Promise<T> => {
+    const response = await fetch(toUrl(path, query), {
+      method,
+      headers: { ...getHeaders(), ...(body === undefined ? {} : { "Content-Type": "application/json" }) },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: options.signal,
+      keepalive: options.keepalive,
+    });
+    if (!response.ok) {
+      let detail = "";
+      try {
+        const parsed = (await response.json()) as { error?: string };
+        detail = parsed?.error || "";
+      } catch {
+        detail = "";
+      }
+      throw Object.assign(new Error(detail || `HTTP ${response.status}`), { status: response.status }) as ApiError;
+    }
+    return (await response.json()) as T;
+  };
+
+  return {
+    /** Runs an analysis and waits for it, up to `waitMs`. */
+    analyze: (params: {
+      /** Id of the scoring profile to weight the scores with, from `GET /profiles`. Defaults to balanced. */
+      profile?: string;
+      body: AnalyzeRequest;
+    }, options?: RequestOptions) =>
+      request<AnalysisReply>("POST", `/analyze`, { query: { profile: params.profile }, body: params.body }, options),
+    /** Checks that a city and locality look like a real place. */
+    validateLocation: (params: { body: LocationQuery }, options?: RequestOptions) =>
+      request<ValidationResult>("POST", `/validate`, { query: {}, body: params.body }, options),
+    /** Checks whether a locality name matches places in several cities. */
+    checkAmbiguity: (params: { body: LocationQuery }, options?: RequestOptions) =>
+      request<AmbiguityResult>("POST", `/ambiguity`, { query: {}, body: params.body }, options),
+    /** Queues an analysis, or reuses the latest stored report, and returns the job. */
+    submitAnalysis: (params: { body: AnalysisRequest }, options?: RequestOptions) =>
+      request<AnalysisJob>("POST", `/input`, { query: {}, body: params.body }, options),
+    /** Cancels a job, or with `client` releases one attached client. */
+    cancelAnalysis: (params: {
+      /** Job id. */
+      id: string;
+      /** Client id to attach to the job. */
+      client?: string;
+    }, options?: RequestOptions) =>
+      request<AnalysisJob>("DELETE", `/input/${encodeURIComponent(params.id)}`, { query: { client: params.client } }, options),
+    /** Returns a job's current reply. */
+    getReply: (params: {
+      /** Job id. */
+      id: string;
+      /** Id of the scoring profile to weight the scores with, from `GET /profiles`. Defaults to balanced. */
+      profile?: string;
+      /** Client id to attach to the job. */
+      client?: string;
+    }, options?: RequestOptions) =>
+      request<AnalysisReply>("GET", `/reply/${encodeURIComponent(params.id)}`, { query: { profile: params.profile, client: params.client } }, options),
+    /** Server-sent `stage` events while a job runs, then one `reply` event. */
+    streamReplyUrl: (params: {
+      /** Job id. */
+      id: string;
+      /** Id of the scoring profile to weight the scores with, from `GET /profiles`. Defaults to balanced. */
+      profile?: string;
+      /** Client id to attach to the job. */
+      client?: string;
+      /** API key, for clients that cannot send headers. */
+      key?: string;
+    }) =>
+      toUrl(`/stream/${encodeURIComponent(params.id)}`, { profile: params.profile, client: params.client, key: params.key }),
+    /** Job queue load. */
+    getQueueStats: (options?: RequestOptions) =>
+      request<QueueStats>("GET", `/queue`, { query: {} }, options),
+    /** Starts a batch of analyses from CSV text or rows. */
+    createBatch: (params: {
+      /** Id of the scoring profile to weight the scores with, from `GET /profiles`. Defaults to balanced. */
+      profile?: string;
+      body: BatchRequest;
+    }, options?: RequestOptions) =>
+      request<BatchStatus>("POST", `/batch`, { query: { profile: params.profile }, body: params.body }, options),
+    /** Returns a batch with per-row status. */
+    getBatch: (params: {
+      /** Batch id. */
+      id: string;
+      /** Id of the scoring profile to weight the scores with, from `GET /profiles`. Defaults to balanced. */
+      profile?: string;
+    }, options?: RequestOptions) =>
+      request<BatchStatus>("GET", `/batch/${encodeURIComponent(params.id)}`, { query: { profile: params.profile } }, options),
+    /** Drops rows that have not been queued yet. */
+    cancelBatch: (params: {
+      /** Batch id. */
+      id: string;
+    }, options?: RequestOptions) =>
+      request<BatchStatus>("DELETE", `/batch/${encodeURIComponent(params.id)}`, { query: {} }, options),
+    /** Lists the saved report versions of a locality, newest first. */
+    listReports: (params: { city: string; locality: string }, options?: RequestOptions) =>
+      request<{ reports: ReportSummary[] }>("GET", `/reports`, { query: { city: params.city, locality: params.locality } }, options),
+    /** Returns one saved report version. */
+    getReport: (params: {
+      /** Report id. */
+      reportId: string;
+      /** Id of the scoring profile to weight the scores with, from `GET /profiles`. Defaults to balanced. */
+      profile?: string;
+    }, options?: RequestOptions) =>
+      request<{ report: LocationAnalysis }>("GET", `/reports/${encodeURIComponent(params.reportId)}`, { query: { profile: params.profile } }, options),
+    /** Creates a read-only share link for a saved report. */
+    createShare: (params: { body: ShareRequest }, options?: RequestOptions) =>
+      request<{ share: ShareLink }>("POST", `/shares`, { query: {}, body: params.body }, options),
+    /** Lists a report's share links with their view counts. */
+    listShares: (params: { reportId: string }, options?: RequestOptions) =>
+      request<{ shares: ShareLink[] }>("GET", `/shares`, { query: { reportId: params.reportId } }, options),
+    /** Revokes a share link. */
+    revokeShare: (params: {
+      /** Share id. */
+      shareId: string;
+    }, options?: RequestOptions) =>
+      request<{ share: ShareLink }>("DELETE", `/shares/${encodeURIComponent(params.shareId)}`, { query: {} }, options),
+    /** Opens a share link and counts the view. Needs no API key. */
+    openSharedReport: (params: {
+      /** Share token. */
+      token: string;
+    }, options?: RequestOptions) =>
+      request<SharedReport>("GET", `/shared/${encodeURIComponent(params.token)}`, { query: {} }, options),
+    /** The caller's workspace usage on a UTC day, with the calling key's limits. */
+    getUsage: (params: {
+      /** YYYY-MM-DD; defaults to today. */
+      date?: string;
+    } = {}, options?: RequestOptions) =>
+      request<UsageReport>("GET", `/usage`, { query: { date: params.date } }, options),
+    /** Lists the scoring profiles. */
+    listProfiles: (options?: RequestOptions) =>
+      request<{ profiles: ScoringProfile[] }>("GET", `/profiles`, { query: {} }, options),
+    /** Places a city and locality. */
+    geocode: (params: { city: string; locality: string }, options?: RequestOptions) =>
+      request<{ geo: LocationGeo }>("GET", `/geocode`, { query: { city: params.city, locality: params.locality } }, options),
+    /** Finds the nearest known city and locality to a point. */
+    reverseGeocode: (params: { lat: number; lng: number }, options?: RequestOptions) =>
+      request<{ place: ReversePlace }>("GET", `/reverse-geocode`, { query: { lat: params.lat, lng: params.lng } }, options),
+    /** This document. Needs no API key. */
+    getOpenApiDocument: (options?: RequestOptions) =>
+      request<Record<string, unknown>>("GET", `/openapi.json`, { query: {} }, options),
+    /** Liveness check. Needs no API key. */
+    ping: (options?: RequestOptions) =>
+      request<{ ok: boolean; message: string }>("GET", `/ping`, { query: {} }, options),
+  };
+};
+
+export type ApiClient = ReturnType<typeof createApiClient>;
@@ -0,0 +1,224 @@
+import { BatchRow, LocationAnalysis } from "../types";
+
+const CATEGORY_CODES = ["L", "O", "C", "A", "T", "E"] as const;
+
+/** Columns of the per-section CSV: one row per LOCATE category and section. */
+export const CATEGORY_SECTION_COLUMNS = [
+  "city",
+  "locality",
+  "state",
+  "evaluation_date",
+  "profile",
+  "category_code",
+  "category_name",
+  "category_score",
+  "category_max_score",
+  "section_index",
+  "section_title",
+  "section_body",
+  "section_source",
+  "section_confidence",
+  "section_drivers",
+] as const;
+
+/** Columns of the landmarks CSV: one row per nearby landmark, nearest first. */
+export const LANDMARK_COLUMNS = [
+  "city",
+  "locality",
+  "evaluation_date",
+  "landmark_rank",
+  "landmark_name",
+  "landmark_category",
+  "distance_km",
+  "latitude",
+  "longitude",
+] as const;
+
+/** Columns of the multi-locality CSV: one row per report. */
+export const MULTI_LOCALITY_COLUMNS = [
+  "rank",
+  "city",
+  "locality",
+  "state",
+  "evaluation_date",
+  "profile",
+  "total_score",
+  "max_total_score",
+  "grade",
+  "grade_label",
+  ...CATEGORY_CODES.flatMap((code) => [`${code}_score`, `${code}_max_score`]),
+  "landmark_count",
+  "holding_horizon",
+  "headline_verdict",
+] as const;
+
+/** Columns of the batch CSV: one row per uploaded row, analysed rows ranked first. */
+export const BATCH_COLUMNS = [
+  "rank",
+  "source_row",
+  "city",
+  "locality",
+  "status",
+  "total_score",
+  "max_total_score",
+  "grade",
+  "grade_label",
+  ...CATEGORY_CODES.flatMap((code) => [`${code}_score`, `${code}_max_score`]),
+  "suggested_cities",
+  "message",
+] as const;
+
+type CsvValue = string | number | null | undefined;
+
+/** Spreadsheets run text starting with one of these as a formula. */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsvValue = (value: CsvValue) => {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number") return String(value);
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * RFC 4180 CSV with CRLF line endings. The UTF-8 byte order mark makes Excel
+ * and Google Sheets read non-ASCII locality names correctly. Text cells that
+ * would start a formula (uploaded batch rows, model-written sections) get a
+ * leading `'`; numbers stay plain.
+ */
+export const toCsv = (columns: readonly string[], rows: CsvValue[][]) =>
+  `\uFEFF${[columns, ...rows].map((row) => row.map(escapeCsvValue).join(",")).join("\r\n")}\r\n`;
+
+export const toAnalysisJson = (report: LocationAnalysis) => `${JSON.stringify(report, null, 2)}\n`;
+
+export const toCategorySectionsCsv = (report: LocationAnalysis) =>
+  toCsv(
+    CATEGORY_SECTION_COLUMNS,
+    report.categories.flatMap((category) =>
+      category.sections.map((section, index) => [
+        report.cityName,
+        report.localityName,
+        report.state,
+        report.evaluationDate,
+        report.summary.profile || "",
+        category.code,
+        category.name,
+        category.score,
+        category.maxScore,
+        index + 1,
+        section.title,
+        section.body,
+        section.source,
+        section.confidence,
+        (section.drivers || []).map((driver) => `${driver.label} (${driver.points > 0 ? "+" : ""}${driver.points})`).join("; "),
+      ]),
+    ),
+  );
+
+export const toLandmarksCsv = (report: LocationAnalysis) =>
+  toCsv(
+    LANDMARK_COLUMNS,
+    report.nearbyLandmarks.map((landmark, index) => [
+      report.cityName,
+      report.localityName,
+      report.evaluationDate,
+      index + 1,
+      landmark.name,
+      landmark.category,
+      landmark.distanceKm,
+      landmark.coordinates?.lat,
+      landmark.coordinates?.lng,
+    ]),
+  );
+
+/** Ranks reports by total score (highest first) into one row each. */
+export const toMultiLocalityCsv = (reports: LocationAnalysis[]) =>
+  toCsv(
+    MULTI_LOCALITY_COLUMNS,
+    [...reports]
+      .sort((a, b) => b.summary.totalScore - a.summary.totalScore)
+      .map((report, index) => [
+        index + 1,
+        report.cityName,
+        report.localityName,
+        report.state,
+        report.evaluationDate,
+        report.summary.profile || "",
+        report.summary.totalScore,
+        report.summary.maxTotalScore,
+        report.summary.grade,
+        report.summary.gradeLabel,
+        ...CATEGORY_CODES.flatMap((code) => {
+          const category = report.categories.find((c) => c.code === code);
+          return [category?.score ?? "", category?.maxScore ?? ""];
+        }),
+        report.nearbyLandmarks.length,
+        report.recommendations.holdingHorizon,
+        report.summary.headlineVerdict,
+      ]),
+  );
+
+/** Analysed rows by total score (highest first), then every other row in file order. */
+export const rankBatchRows = (rows: BatchRow[]) => [
+  ...rows.filter((row) => row.result).sort((a, b) => b.result!.totalScore - a.result!.totalScore),
+  ...rows.filter((row) => !row.result),
+];
+
+export const toBatchCsv = (rows: BatchRow[]) =>
+  toCsv(
+    BATCH_COLUMNS,
+    rankBatchRows(rows).map((row, index) => [
+      row.result ? index + 1 : "",
+      row.row,
+      row.city,
+      row.locality,
+      row.status,
+      row.result?.totalScore,
+      row.result?.maxTotalScore,
+      row.result?.grade,
+      row.result?.gradeLabel,
+      ...CATEGORY_CODES.flatMap((code) => {
+        const category = row.result?.categories.find((c) => c.code === code);
+        return [category?.score ?? "", category?.maxScore ?? ""];
+      }),
+      row.suggestedCities.join("; "),
+      row.error,
+    ]),
+  );
+
+export const getAnalysisFileName = (report: LocationAnalysis, extension: string, suffix = "") => {
+  const slug = `${report.localityName}-${report.cityName}`
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `locate-${slug || "report"}-${report.evaluationDate}${suffix ? `-${suffix}` : ""}.${extension}`;
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = fileName;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const downloadText = (content: string, type: string, fileName: string) =>
+  downloadBlob(new Blob([content], { type }), fileName);
+
+export const downloadAnalysisJson = (report: LocationAnalysis) =>
+  downloadText(toAnalysisJson(report), "application/json", getAnalysisFileName(report, "json"));
+
+export const downloadCategorySectionsCsv = (report: LocationAnalysis) =>
+  downloadText(toCategorySectionsCsv(report), "text/csv;charset=utf-8", getAnalysisFileName(report, "csv", "categories"));
+
+export const downloadLandmarksCsv = (report: LocationAnalysis) =>
+  downloadText(toLandmarksCsv(report), "text/csv;charset=utf-8", getAnalysisFileName(report, "csv", "landmarks"));
+
+export const downloadMultiLocalityCsv = (reports: LocationAnalysis[], fileName = "locate-localities.csv") =>
+  downloadText(toMultiLocalityCsv(reports), "text/csv;charset=utf-8", fileName);
+
+export const downloadBatchCsv = (rows: BatchRow[], fileName = "locate-batch.csv") =>
+  downloadText(toBatchCsv(rows), "text/csv;charset=utf-8", fileName);
@@ -1,15 +1,44 @@
-import { LocationAnalysis } from "../types";
+import {
+  AmbiguityResult,
+  AnalysisCacheStats,
+  AnalysisProgress,
+  AnalysisStage,
+  BatchStatus,
+  CachedAnalysisEntry,
+  GeoPoint,
+  LocationAnalysis,
+  ReportSummary,
+  ReversePlace,
+  ShareLink,
+  SharedReport,
+  ValidationResult,
+} from "../types";
+import { DEFAULT_PROFILE_ID } from "../shared/scoring";
+import { Schema, arrayOf, parse } from "../shared/schema";
+import {
+  AmbiguityResultSchema,
+  BatchStatusSchema,
+  LocationAnalysisSchema,
+  ReportSummarySchema,
+  ReversePlaceSchema,
+  SharedReportSchema,
+  ShareLinkSchema,
+  ValidationResultSchema,
+} from "../shared/reportSchema";
+import { AnalysisReply, createApiClient } from "./apiClient";
 
 const analysisCache = new Map<string, LocationAnalysis>();
-const matchesCache = new Map<string, { isAmbiguous: boolean; suggestedCities: string[] }>();
-const validationCache = new Map<string, { isValid: boolean; reason: string }>();
+const matchesCache = new Map<string, AmbiguityResult>();
+const validationCache = new Map<string, ValidationResult>();
 
 type PersistentEntry<T> = {
   value: T;
   savedAt: number;
+  /** Last read or write; entries saved before LRU eviction fall back to `savedAt`. */
+  usedAt?: number;
 };
 
-const ANALYSIS_CACHE_KEY = "locate:analysis-cache:v1";
+const ANALYSIS_CACHE_KEY = "locate:analysis-cache:v2";
 const MATCHES_CACHE_KEY = "locate:matches-cache:v1";
 const VALIDATION_CACHE_KEY = "locate:validation-cache:v1";
 const DEFAULT_CACHE_DAYS = 30;
@@ -18,17 +47,36 @@ const CACHE_TTL_DAYS = Math.max(
   Number((import.meta as any)?.env?.VITE_ANALYSIS_CACHE_TTL_DAYS || DEFAULT_CACHE_DAYS),
 );
 const CACHE_TTL_MS = CACHE_TTL_DAYS * 24 * 60 * 60 * 1000;
+const DEFAULT_CACHE_MAX_KB = 2048;
+const CACHE_MAX_BYTES =
+  Math.max(64, Number((import.meta as any)?.env?.VITE_ANALYSIS_CACHE_MAX_KB || DEFAULT_CACHE_MAX_KB)) * 1024;
+const DEFAULT_REPLY_TIMEOUT_MS = 180000;
+const REPLY_TIMEOUT_MS = Math.max(
+  12000,
+  Number((import.meta as any)?.env?.VITE_ANALYSIS_TIMEOUT_MS || DEFAULT_REPLY_TIMEOUT_MS),
+);
 
 const API_BASE_URL =
   ((import.meta as any)?.env?.VITE_API_BASE_URL as string | undefined)?.trim() ||
   "http://localhost:4000";
+/** Workspace API key, sent with every request when the server has keys configured. */
+const API_KEY = ((import.meta as any)?.env?.VITE_API_KEY as string | undefined)?.trim() || "";
+
+const getAuthHeaders = (): Record<string, string> => (API_KEY ? { Authorization: `Bearer ${API_KEY}` } : {});
 
 const isBrowser = () => typeof window !== "undefined" && !!window.localStorage;
 
 const getCacheKey = (city: string, locality: string) =>
   `${(city || "").trim().toLowerCase()}::${(locality || "").trim().toLowerCase()}`;
 
-const loadPersistentMap = <T>(storageKey: string): Map<string, PersistentEntry<T>> => {
+const getAnalysisCacheKey = (city: string, locality: string, profile?: string) =>
+  `${getCacheKey(city, locality)}::${profile || DEFAULT_PROFILE_ID}`;
+
+/**
+ * Reads a cache from localStorage, skipping expired entries and entries that
+ * no longer match `schema`, e.g. reports written by an older build.
+ */
+const loadPersistentMap = <T>(storageKey: string, schema: Schema<T>): Map<string, PersistentEntry<T>> => {
   const map = new Map<string, PersistentEntry<T>>();
   if (!isBrowser()) return map;
 
@@ -39,8 +87,12 @@ const loadPersistentMap = <T>(storageKey: string): Map<string, PersistentEntry<T
     const parsed = JSON.parse(raw) as Record<string, PersistentEntry<T>>;
     const now = Date.now();
     Object.entries(parsed).forEach(([key, entry]) => {
-      if (entry?.savedAt && now - entry.savedAt <= CACHE_TTL_MS) {
+      if (!entry?.savedAt || now - entry.savedAt > CACHE_TTL_MS) return;
+      try {
+        parse(schema, entry.value, { label: "Cached entry" });
         map.set(key, entry);
+      } catch (error) {
+        console.warn(`Dropped ${key} from cache ${storageKey}:`, (error as Error).message);
       }
     });
   } catch (error) {
@@ -50,20 +102,60 @@ const loadPersistentMap = <T>(storageKey: string): Map<string, PersistentEntry<T
   return map;
 };
 
+/** localStorage holds UTF-16 strings, so each character costs two bytes. */
+const getEntryBytes = (key: string, entry: PersistentEntry<unknown>) => (key.length + JSON.stringify(entry).length + 4) * 2;
+
+const getLastUsedAt = (entry: PersistentEntry<unknown>) => entry.usedAt || entry.savedAt;
+
+const touchEntry = <T>(map: Map<string, PersistentEntry<T>>, key: string): PersistentEntry<T> | undefined => {
+  const entry = map.get(key);
+  if (entry) entry.usedAt = Date.now();
+  return entry;
+};
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === "QuotaExceededError" || error.name === "NS_ERROR_DOM_QUOTA_REACHED");
+
+/**
+ * Writes a cache to localStorage, first evicting least recently used entries
+ * until it fits `CACHE_MAX_BYTES`. The browser's own quota is shared with the
+ * rest of the origin, so a quota error evicts further entries and retries.
+ */
 const savePersistentMap = <T>(storageKey: string, map: Map<string, PersistentEntry<T>>): void => {
   if (!isBrowser()) return;
 
-  try {
-    const obj = Object.fromEntries(map.entries());
-    window.localStorage.setItem(storageKey, JSON.stringify(obj));
-  } catch (error) {
-    console.warn(`Failed to save cache ${storageKey}:`, error);
+  const evictionOrder = [...map.entries()]
+    .sort(([, a], [, b]) => getLastUsedAt(a) - getLastUsedAt(b))
+    .map(([key]) => key);
+  let totalBytes = [...map.entries()].reduce((sum, [key, entry]) => sum + getEntryBytes(key, entry), 0);
+  while (totalBytes > CACHE_MAX_BYTES && evictionOrder.length > 0) {
+    const key = evictionOrder.shift()!;
+    totalBytes -= getEntryBytes(key, map.get(key)!);
+    map.delete(key);
+  }
+
+  for (;;) {
+    try {
+      const obj = Object.fromEntries(map.entries());
+      window.localStorage.setItem(storageKey, JSON.stringify(obj));
+      return;
+    } catch (error) {
+      if (!isQuotaError(error) || evictionOrder.length === 0) {
+        console.warn(`Failed to save cache ${storageKey}:`, error);
+        return;
+      }
+      map.delete(evictionOrder.shift()!);
+    }
   }
 };
 
-const persistentAnalysisCache = loadPersistentMap<LocationAnalysis>(ANALYSIS_CACHE_KEY);
-const persistentMatchesCache = loadPersistentMap<{ isAmbiguous: boolean; suggestedCities: string[] }>(MATCHES_CACHE_KEY);
-const persistentValidationCache = loadPersistentMap<{ isValid: boolean; reason: string }>(VALIDATION_CACHE_KEY);
+const persistentAnalysisCache = loadPersistentMap(ANALYSIS_CACHE_KEY, LocationAnalysisSchema);
+// Degraded reports cached by earlier builds would otherwise be served for the whole TTL.
+persistentAnalysisCache.forEach((entry, key) => {
+  if (entry.value?.provenance?.degraded) persistentAnalysisCache.delete(key);
+});
+const persistentMatchesCache = loadPersistentMap(MATCHES_CACHE_KEY, AmbiguityResultSchema);
+const persistentValidationCache = loadPersistentMap(VALIDATION_CACHE_KEY, ValidationResultSchema);
 
 const isObviouslyGibberish = (value: string): boolean => {
   const text = (value || "").trim();
@@ -87,57 +179,162 @@ const toErrorMessage = (value: unknown) => {
   return "Unable to process input right now. Try again.";
 };
 
-const fetchJson = async <T>(path: string, options?: RequestInit): Promise<T> => {
-  const response = await fetch(`${API_BASE_URL}${path}`, options);
-  if (!response.ok) {
-    let detail = "";
-    try {
-      const parsed = (await response.json()) as { error?: string };
-      detail = parsed?.error || "";
-    } catch {
-      detail = "";
-    }
-    throw new Error(detail || `HTTP ${response.status}`);
-  }
-  return (await response.json()) as T;
+const api = createApiClient({ baseUrl: API_BASE_URL, getHeaders: getAuthHeaders });
+
+/** A "done" reply can still carry an error, e.g. when the server fell back to offline scoring. */
+const withReplyError = (result: LocationAnalysis, error: string | null): LocationAnalysis => {
+  if (!error) return result;
+  return {
+    ...result,
+    provenance: {
+      generator: result.provenance?.generator || "offline",
+      defaultSections: result.provenance?.defaultSections || 0,
+      ...result.provenance,
+      degraded: true,
+      reason: result.provenance?.reason || error,
+    },
+  };
+};
+
+export type ProgressCallback = (progress: AnalysisProgress) => void;
+
+export interface AnalysisRequestOptions {
+  onProgress?: ProgressCallback;
+  /** Skip client caches and ask the server for a new evaluation instead of a stored one. */
+  refresh?: boolean;
+  /** Scoring profile id from `shared/scoring`; defaults to the balanced profile. */
+  profile?: string;
+  /** Aborting stops waiting and tells the server this client no longer needs the result. */
+  signal?: AbortSignal;
+}
+
+type ReplyWaitOptions = Pick<AnalysisRequestOptions, "onProgress" | "profile" | "signal"> & {
+  /** Identifies this request to the server so abandoning it can cancel the job. */
+  clientId?: string;
 };
 
-const pollReply = async (id: string): Promise<{
-  status: "pending" | "done" | "invalid_input" | "needs_clarification";
-  result: LocationAnalysis | null;
-  error: string | null;
-  suggestedCities: string[];
-}> => {
+const createClientId = () =>
+  typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+const createAbortError = () => new DOMException("Analysis was cancelled.", "AbortError");
+
+/** True for errors raised because the caller aborted the request. */
+export const isAbortError = (error: unknown) =>
+  !!error && typeof error === "object" && "name" in error && (error as { name?: unknown }).name === "AbortError";
+
+const waitOrAbort = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/** Lets the server know this client gave up on a request; the job stops once no other client wants it. */
+const releaseRequest = (id: string, clientId: string) => {
+  api.cancelAnalysis({ id, client: clientId }, { keepalive: true }).catch(() => undefined);
+};
+
+const pollReply = async (id: string, options: ReplyWaitOptions = {}): Promise<AnalysisReply> => {
+  const { onProgress, profile, clientId, signal } = options;
   const started = Date.now();
-  const timeoutMs = 12000;
 
-  while (Date.now() - started < timeoutMs) {
-    const reply = await fetchJson<{
-      id: string;
-      status: "pending" | "done" | "invalid_input" | "needs_clarification";
-      result: LocationAnalysis | null;
-      error: string | null;
-      suggestedCities: string[];
-    }>(`/api/reply/${id}`);
+  while (Date.now() - started < REPLY_TIMEOUT_MS) {
+    if (signal?.aborted) throw createAbortError();
+    const reply = await api.getReply({ id, profile, client: clientId }, { signal });
+    onProgress?.({ requestId: id, stage: reply.status === "pending" ? reply.stage || "queued" : "done" });
 
     if (reply.status !== "pending") return reply;
 
-    await new Promise((resolve) => setTimeout(resolve, 350));
+    await waitOrAbort(350, signal);
   }
 
   throw new Error("Analysis timed out. Please retry.");
 };
 
+/**
+ * Follows a request over the server's event stream, reporting each processing
+ * stage. Falls back to polling when EventSource is unavailable or the stream drops.
+ */
+const streamReply = (id: string, options: ReplyWaitOptions = {}): Promise<AnalysisReply> => {
+  if (typeof EventSource === "undefined") return pollReply(id, options);
+  const { onProgress, profile, clientId, signal } = options;
+  if (signal?.aborted) return Promise.reject(createAbortError());
+
+  return new Promise((resolve, reject) => {
+    // EventSource cannot send headers, so the stream takes the key as a query parameter.
+    const source = new EventSource(api.streamReplyUrl({ id, profile, client: clientId, key: API_KEY || undefined }));
+    let settled = false;
+
+    const onAbort = () => {
+      if (settled) return;
+      settled = true;
+      source.close();
+      reject(createAbortError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    source.addEventListener("stage", (event) => {
+      const data = JSON.parse((event as MessageEvent).data) as { stage: AnalysisStage };
+      onProgress?.({ requestId: id, stage: data.stage });
+    });
+
+    source.addEventListener("reply", (event) => {
+      settled = true;
+      source.close();
+      signal?.removeEventListener("abort", onAbort);
+      onProgress?.({ requestId: id, stage: "done" });
+      resolve(JSON.parse((event as MessageEvent).data) as AnalysisReply);
+    });
+
+    source.onerror = () => {
+      if (settled) return;
+      settled = true;
+      source.close();
+      signal?.removeEventListener("abort", onAbort);
+      pollReply(id, options).then(resolve, reject);
+    };
+  });
+};
+
+/**
+ * Submits a city/locality and waits for the reply. When `signal` aborts after
+ * the server accepted the request, the server is told this client is gone.
+ */
+const requestReply = async (
+  body: { city: string; locality: string; refresh?: boolean },
+  options: AnalysisRequestOptions,
+): Promise<AnalysisReply> => {
+  const clientId = createClientId();
+  const input = await api.submitAnalysis({ body: { ...body, clientId } }, { signal: options.signal });
+
+  try {
+    return await streamReply(input.id, { ...options, clientId });
+  } catch (error) {
+    if (isAbortError(error)) releaseRequest(input.id, clientId);
+    throw error;
+  }
+};
+
 export const validateLocationInput = async (
   city: string,
   locality: string,
-): Promise<{ isValid: boolean; reason: string }> => {
+): Promise<ValidationResult> => {
   const cacheKey = getCacheKey(city, locality);
   if (validationCache.has(cacheKey)) {
+    touchEntry(persistentValidationCache, cacheKey);
     return validationCache.get(cacheKey)!;
   }
   if (persistentValidationCache.has(cacheKey)) {
-    const cached = persistentValidationCache.get(cacheKey)!.value;
+    const cached = touchEntry(persistentValidationCache, cacheKey)!.value;
     validationCache.set(cacheKey, cached);
     return cached;
   }
@@ -149,7 +346,7 @@ export const validateLocationInput = async (
 
   const result = invalid.isValid ? { isValid: true, reason: "Valid input." } : invalid;
   validationCache.set(cacheKey, result);
-  persistentValidationCache.set(cacheKey, { value: result, savedAt: Date.now() });
+  persistentValidationCache.set(cacheKey, { value: result, savedAt: Date.now(), usedAt: Date.now() });
   savePersistentMap(VALIDATION_CACHE_KEY, persistentValidationCache);
   return result;
 };
@@ -157,67 +354,67 @@ export const validateLocationInput = async (
 export const getCityMatches = async (
   city: string,
   locality: string,
-): Promise<{ isAmbiguous: boolean; suggestedCities: string[] }> => {
+  options: AnalysisRequestOptions = {},
+): Promise<AmbiguityResult> => {
   const cacheKey = getCacheKey(city, locality);
   if (matchesCache.has(cacheKey)) {
+    touchEntry(persistentMatchesCache, cacheKey);
     return matchesCache.get(cacheKey)!;
   }
   if (persistentMatchesCache.has(cacheKey)) {
-    const cached = persistentMatchesCache.get(cacheKey)!.value;
+    const cached = touchEntry(persistentMatchesCache, cacheKey)!.value;
     matchesCache.set(cacheKey, cached);
     return cached;
   }
 
   try {
-    const input = await fetchJson<{ id: string; status: string }>("/api/input", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ city, locality }),
-    });
-
-    const reply = await pollReply(input.id);
+    const reply = await requestReply({ city, locality }, options);
     const result = {
       isAmbiguous: reply.status === "needs_clarification",
       suggestedCities: reply.suggestedCities || [],
     };
 
     matchesCache.set(cacheKey, result);
-    persistentMatchesCache.set(cacheKey, { value: result, savedAt: Date.now() });
+    persistentMatchesCache.set(cacheKey, { value: result, savedAt: Date.now(), usedAt: Date.now() });
     savePersistentMap(MATCHES_CACHE_KEY, persistentMatchesCache);
     return result;
-  } catch {
+  } catch (error) {
+    if (isAbortError(error)) throw error;
     const result = { isAmbiguous: false, suggestedCities: [] };
     matchesCache.set(cacheKey, result);
-    persistentMatchesCache.set(cacheKey, { value: result, savedAt: Date.now() });
+    persistentMatchesCache.set(cacheKey, { value: result, savedAt: Date.now(), usedAt: Date.now() });
     savePersistentMap(MATCHES_CACHE_KEY, persistentMatchesCache);
     return result;
   }
 };
 
-export const analyzeLocation = async (city: string, locality: string): Promise<LocationAnalysis> => {
-  const cacheKey = getCacheKey(city, locality);
-  if (analysisCache.has(cacheKey)) {
+export const analyzeLocation = async (
+  city: string,
+  locality: string,
+  options: AnalysisRequestOptions = {},
+): Promise<LocationAnalysis> => {
+  const cacheKey = getAnalysisCacheKey(city, locality, options.profile);
+  if (!options.refresh && analysisCache.has(cacheKey)) {
+    touchEntry(persistentAnalysisCache, cacheKey);
     return analysisCache.get(cacheKey)!;
   }
-  if (persistentAnalysisCache.has(cacheKey)) {
-    const cached = persistentAnalysisCache.get(cacheKey)!.value;
+  if (!options.refresh && persistentAnalysisCache.has(cacheKey)) {
+    const cached = touchEntry(persistentAnalysisCache, cacheKey)!.value;
     analysisCache.set(cacheKey, cached);
     return cached;
   }
 
   try {
-    const input = await fetchJson<{ id: string; status: string }>("/api/input", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ city, locality }),
-    });
-
-    const reply = await pollReply(input.id);
+    const reply = await requestReply({ city, locality, refresh: options.refresh === true }, options);
 
     if (reply.status === "invalid_input") {
       throw new Error(reply.error || "Invalid input. Enter a valid city and locality.");
     }
 
+    if (reply.status === "cancelled") {
+      throw new Error(reply.error || "Analysis was cancelled.");
+    }
+
     if (reply.status === "needs_clarification") {
       const joined = (reply.suggestedCities || []).join(", ");
       throw new Error(
@@ -230,11 +427,134 @@ export const analyzeLocation = async (city: string, locality: string): Promise<L
       throw new Error(reply.error || "No analysis returned from server.");
     }
 
-    analysisCache.set(cacheKey, reply.result);
-    persistentAnalysisCache.set(cacheKey, { value: reply.result, savedAt: Date.now() });
-    savePersistentMap(ANALYSIS_CACHE_KEY, persistentAnalysisCache);
-    return reply.result;
+    const result = withReplyError(parse(LocationAnalysisSchema, reply.result, { label: "The server's report" }), reply.error);
+    // Fallback and placeholder content is shown once but never cached, so the next request retries the model.
+    if (!result.provenance?.degraded) {
+      analysisCache.set(cacheKey, result);
+      persistentAnalysisCache.set(cacheKey, { value: result, savedAt: Date.now(), usedAt: Date.now() });
+      savePersistentMap(ANALYSIS_CACHE_KEY, persistentAnalysisCache);
+    }
+    return result;
   } catch (error) {
+    if (isAbortError(error)) throw error;
     throw new Error(toErrorMessage(error));
   }
 };
+
+const toCachedAnalysisEntry = (key: string, entry: PersistentEntry<LocationAnalysis>): CachedAnalysisEntry => {
+  const [city = "", locality = "", profile = DEFAULT_PROFILE_ID] = key.split("::");
+  return {
+    key,
+    city,
+    locality,
+    profile,
+    cityName: entry.value.cityName || city,
+    localityName: entry.value.localityName || locality,
+    totalScore: entry.value.summary.totalScore,
+    grade: entry.value.summary.grade,
+    savedAt: entry.savedAt,
+    lastUsedAt: getLastUsedAt(entry),
+    sizeBytes: getEntryBytes(key, entry),
+  };
+};
+
+/** Cached reports, most recently used first. */
+export const listCachedAnalyses = (): CachedAnalysisEntry[] =>
+  [...persistentAnalysisCache.entries()]
+    .map(([key, entry]) => toCachedAnalysisEntry(key, entry))
+    .sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+
+export const invalidateCachedAnalysis = (key: string): void => {
+  analysisCache.delete(key);
+  if (persistentAnalysisCache.delete(key)) {
+    savePersistentMap(ANALYSIS_CACHE_KEY, persistentAnalysisCache);
+  }
+};
+
+/** Drops every cached report and lookup, in memory and in localStorage. */
+export const clearAnalysisCache = (): void => {
+  analysisCache.clear();
+  matchesCache.clear();
+  validationCache.clear();
+  persistentAnalysisCache.clear();
+  persistentMatchesCache.clear();
+  persistentValidationCache.clear();
+  if (!isBrowser()) return;
+
+  [ANALYSIS_CACHE_KEY, MATCHES_CACHE_KEY, VALIDATION_CACHE_KEY].forEach((storageKey) => {
+    window.localStorage.removeItem(storageKey);
+  });
+};
+
+/** Asks the server for a new evaluation of a cached report and replaces the cached copy. */
+export const refreshCachedAnalysis = (
+  key: string,
+  options: Omit<AnalysisRequestOptions, "refresh" | "profile"> = {},
+): Promise<LocationAnalysis> => {
+  const [city = "", locality = "", profile = DEFAULT_PROFILE_ID] = key.split("::");
+  return analyzeLocation(city, locality, { ...options, profile, refresh: true });
+};
+
+export const getCacheStats = (): AnalysisCacheStats => {
+  const entries = listCachedAnalyses();
+  return {
+    entries: entries.length,
+    sizeBytes: entries.reduce((sum, entry) => sum + entry.sizeBytes, 0),
+    maxBytes: CACHE_MAX_BYTES,
+    ttlDays: CACHE_TTL_DAYS,
+    lookupEntries: persistentMatchesCache.size + persistentValidationCache.size,
+    oldestSavedAt: entries.length > 0 ? Math.min(...entries.map((entry) => entry.savedAt)) : null,
+  };
+};
+
+export const listReports = async (city: string, locality: string): Promise<ReportSummary[]> => {
+  const response = await api.listReports({ city, locality });
+  return parse(arrayOf(ReportSummarySchema), response.reports || [], { label: "The saved report list" });
+};
+
+/** Loads one saved report version, from the local cache when it holds that version. */
+export const getReport = async (reportId: string, profile?: string, signal?: AbortSignal): Promise<LocationAnalysis> => {
+  const profileSuffix = `::${profile || DEFAULT_PROFILE_ID}`;
+  const cached = [...persistentAnalysisCache.entries()].find(
+    ([key, entry]) => key.endsWith(profileSuffix) && entry.value.reportId === reportId,
+  );
+  if (cached) return touchEntry(persistentAnalysisCache, cached[0])!.value;
+
+  const response = await api.getReport({ reportId, profile: profile || DEFAULT_PROFILE_ID }, { signal });
+  return parse(LocationAnalysisSchema, response.report, { label: "The saved report" });
+};
+
+export const createShareLink = async (reportId: string, profile?: string, expiresInDays?: number): Promise<ShareLink> => {
+  const response = await api.createShare({ body: { reportId, profile: profile || DEFAULT_PROFILE_ID, expiresInDays } });
+  return parse(ShareLinkSchema, response.share, { label: "The share link" });
+};
+
+export const listShareLinks = async (reportId: string): Promise<ShareLink[]> => {
+  const response = await api.listShares({ reportId });
+  return parse(arrayOf(ShareLinkSchema), response.shares || [], { label: "The share link list" });
+};
+
+export const revokeShareLink = async (shareId: string): Promise<ShareLink> => {
+  const response = await api.revokeShare({ shareId });
+  return parse(ShareLinkSchema, response.share, { label: "The share link" });
+};
+
+/** Opens a share token; expired, revoked and unknown tokens reject with the server's message. */
+export const getSharedReport = async (token: string, signal?: AbortSignal): Promise<SharedReport> =>
+  parse(SharedReportSchema, await api.openSharedReport({ token }, { signal }), { label: "The shared report" });
+
+const toBatchStatus = (value: BatchStatus) => parse(BatchStatusSchema, value, { label: "The batch status" });
+
+export const createBatch = async (csv: string, profile?: string): Promise<BatchStatus> =>
+  toBatchStatus(await api.createBatch({ profile: profile || DEFAULT_PROFILE_ID, body: { csv } }));
+
+export const getBatch = async (batchId: string, profile?: string): Promise<BatchStatus> =>
+  toBatchStatus(await api.getBatch({ id: batchId, profile: profile || DEFAULT_PROFILE_ID }));
+
+export const cancelBatch = async (batchId: string): Promise<BatchStatus> =>
+  toBatchStatus(await api.cancelBatch({ id: batchId }));
+
+export const reverseGeocode = async ({ lat, lng }: GeoPoint): Promise<ReversePlace> => {
+  const response = await api.reverseGeocode({ lat, lng });
+  return parse(ReversePlaceSchema, response.place, { label: "The reverse geocoding result" });
+};
@@ -0,0 +1,392 @@
+import { LocationAnalysis } from "../types";
+import { PIE_COLOR } from "../constants";
+import { downloadBlob, getAnalysisFileName } from "./exportService";
+
+// A4 in PDF points.
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_Y = 30;
+const BODY_SIZE = 10;
+const BODY_LEADING = 14;
+
+const BRAND_BLUE = "#2563eb";
+const INK = "#0f172a";
+const MUTED = "#64748b";
+const RULE = "#e2e8f0";
+
+const DISCLAIMER =
+  "This report is generated by the RealEstate MPF LOCATE engine from model output and public-domain signals. " +
+  "Scores, landmarks and distances are indicative and may be incomplete or out of date. It is not investment, " +
+  "legal or valuation advice; verify all facts independently before making any decision.";
+
+// Standard Helvetica / Helvetica-Bold advance widths for ASCII 32-126, per 1000 em.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611,
+  556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389,
+  280, 389, 584,
+];
+
+type FontName = "regular" | "bold";
+
+const FONT_RESOURCE: Record<FontName, string> = { regular: "F1", bold: "F2" };
+
+/** Maps text onto the printable ASCII range covered by the standard fonts. */
+const toPdfText = (value: string) =>
+  (value || "")
+    .replace(/[\u2018\u2019\u201a\u2032]/g, "'")
+    .replace(/[\u201c\u201d\u201e\u2033]/g, '"')
+    .replace(/[\u2013\u2014\u2212]/g, "-")
+    .replace(/[\u2022\u00b7]/g, "-")
+    .replace(/\u2026/g, "...")
+    .replace(/\u2192/g, "->")
+    .replace(/\u20b9/g, "Rs ")
+    .replace(/\u00d7/g, "x")
+    .replace(/[\u00a0\t\r\n]/g, " ")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\x20-\x7e]/g, "?");
+
+const escapePdfString = (value: string) => value.replace(/\\/g, "\\\\").replace(/\(/g, "\\(").replace(/\)/g, "\\)");
+
+const measureText = (value: string, size: number, font: FontName) => {
+  const widths = font === "bold" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let units = 0;
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+  }
+  return (units * size) / 1000;
+};
+
+const wrapText = (value: string, size: number, font: FontName, maxWidth: number) => {
+  const words = toPdfText(value).split(" ").filter(Boolean);
+  const lines: string[] = [];
+  let current = "";
+
+  words.forEach((word) => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (measureText(candidate, size, font) <= maxWidth || !current) {
+      current = candidate;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  });
+  if (current) lines.push(current);
+  return lines;
+};
+
+const hexToRgb = (hex: string) => {
+  const value = hex.replace("#", "");
+  return [0, 2, 4].map((offset) => (parseInt(value.slice(offset, offset + 2), 16) / 255).toFixed(3)).join(" ");
+};
+
+const num = (value: number) => (Math.round(value * 100) / 100).toString();
+
+/** Cubic bezier approximation of a circular arc, in at most 90 degree segments. */
+const arcOps = (cx: number, cy: number, r: number, start: number, end: number) => {
+  const ops: string[] = [];
+  const segments = Math.max(1, Math.ceil(Math.abs(end - start) / (Math.PI / 2)));
+  const step = (end - start) / segments;
+  const k = (4 / 3) * Math.tan(step / 4);
+
+  for (let i = 0; i < segments; i += 1) {
+    const a0 = start + step * i;
+    const a1 = a0 + step;
+    const [x0, y0] = [cx + r * Math.cos(a0), cy + r * Math.sin(a0)];
+    const [x3, y3] = [cx + r * Math.cos(a1), cy + r * Math.sin(a1)];
+    const [x1, y1] = [x0 - k * r * Math.sin(a0), y0 + k * r * Math.cos(a0)];
+    const [x2, y2] = [x3 + k * r * Math.sin(a1), y3 - k * r * Math.cos(a1)];
+    ops.push(`${num(x1)} ${num(y1)} ${num(x2)} ${num(y2)} ${num(x3)} ${num(y3)} c`);
+  }
+  return ops;
+};
+
+const createPdfWriter = () => {
+  const pages: string[][] = [];
+  let current = -1;
+
+  const page = () => pages[current];
+
+  return {
+    addPage: () => {
+      pages.push([]);
+      current = pages.length - 1;
+    },
+    pageCount: () => pages.length,
+    usePage: (index: number) => {
+      current = index;
+    },
+    text: (value: string, x: number, y: number, size: number, font: FontName = "regular", color = INK) => {
+      page().push(
+        `BT ${hexToRgb(color)} rg /${FONT_RESOURCE[font]} ${size} Tf 1 0 0 1 ${num(x)} ${num(y)} Tm (${escapePdfString(toPdfText(value))}) Tj ET`,
+      );
+    },
+    rect: (x: number, y: number, width: number, height: number, color: string) => {
+      page().push(`${hexToRgb(color)} rg ${num(x)} ${num(y)} ${num(width)} ${num(height)} re f`);
+    },
+    line: (x1: number, y1: number, x2: number, y2: number, color = RULE, width = 0.75) => {
+      page().push(`${hexToRgb(color)} RG ${width} w ${num(x1)} ${num(y1)} m ${num(x2)} ${num(y2)} l S`);
+    },
+    sector: (cx: number, cy: number, r: number, start: number, end: number, color: string) => {
+      const startPoint = `${num(cx + r * Math.cos(start))} ${num(cy + r * Math.sin(start))}`;
+      page().push(`${hexToRgb(color)} rg ${num(cx)} ${num(cy)} m ${startPoint} l ${arcOps(cx, cy, r, start, end).join(" ")} h f`);
+    },
+    circle: (cx: number, cy: number, r: number, color: string) => {
+      page().push(`${hexToRgb(color)} rg ${num(cx + r)} ${num(cy)} m ${arcOps(cx, cy, r, 0, 2 * Math.PI).join(" ")} h f`);
+    },
+    render: (info: { title: string; date: string }) => {
+      const objects: string[] = [];
+      const add = (body: string) => {
+        objects.push(body);
+        return objects.length;
+      };
+
+      const catalogId = add("");
+      const pagesId = add("");
+      const regularId = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+      const boldId = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+      const pageIds = pages.map((ops) => {
+        const stream = ops.join("\n");
+        const contentId = add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+        return add(
+          `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+            `/Resources << /Font << /F1 ${regularId} 0 R /F2 ${boldId} 0 R >> >> /Contents ${contentId} 0 R >>`,
+        );
+      });
+      objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+      objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+      const pdfDate = `D:${info.date.replace(/-/g, "")}000000Z`;
+      const infoId = add(
+        `<< /Title (${escapePdfString(toPdfText(info.title))}) /Producer (RealEstate MPF) /CreationDate (${pdfDate}) >>`,
+      );
+
+      let output = "%PDF-1.4\n";
+      const offsets: number[] = [];
+      objects.forEach((body, index) => {
+        offsets.push(output.length);
+        output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+      });
+      const xrefOffset = output.length;
+      output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+      offsets.forEach((offset) => {
+        output += `${String(offset).padStart(10, "0")} 00000 n \n`;
+      });
+      output += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+      // Everything above is ASCII, so string offsets are byte offsets.
+      return new TextEncoder().encode(output);
+    },
+  };
+};
+
+/**
+ * Builds a branded LOCATE report PDF. Output depends only on the report, so the
+ * same analysis always produces byte-identical files.
+ */
+export const buildAnalysisPdf = (report: LocationAnalysis): Uint8Array => {
+  const pdf = createPdfWriter();
+  let y = 0;
+
+  const newPage = () => {
+    pdf.addPage();
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN + 20) newPage();
+  };
+
+  const paragraph = (value: string, options: { size?: number; font?: FontName; color?: string; indent?: number } = {}) => {
+    const { size = BODY_SIZE, font = "regular", color = "#334155", indent = 0 } = options;
+    const leading = size === BODY_SIZE ? BODY_LEADING : size * 1.4;
+    wrapText(value, size, font, CONTENT_WIDTH - indent).forEach((line) => {
+      ensureSpace(leading);
+      pdf.text(line, MARGIN + indent, y - size, size, font, color);
+      y -= leading;
+    });
+  };
+
+  const heading = (value: string) => {
+    ensureSpace(40);
+    y -= 10;
+    pdf.text(value, MARGIN, y - 16, 16, "bold", INK);
+    y -= 24;
+    pdf.line(MARGIN, y, PAGE_WIDTH - MARGIN, y);
+    y -= 10;
+  };
+
+  const subheading = (value: string) => {
+    ensureSpace(30);
+    pdf.text(value.toUpperCase(), MARGIN, y - 9, 9, "bold", "#334155");
+    y -= 16;
+  };
+
+  const bullets = (items: string[]) => {
+    items.forEach((item) => {
+      const lines = wrapText(item, BODY_SIZE, "regular", CONTENT_WIDTH - 14);
+      lines.forEach((line, index) => {
+        ensureSpace(BODY_LEADING);
+        if (index === 0) pdf.text("-", MARGIN + 2, y - BODY_SIZE, BODY_SIZE, "bold", BRAND_BLUE);
+        pdf.text(line, MARGIN + 14, y - BODY_SIZE, BODY_SIZE, "regular", "#334155");
+        y -= BODY_LEADING;
+      });
+      y -= 3;
+    });
+  };
+
+  // Cover page.
+  newPage();
+  pdf.rect(0, PAGE_HEIGHT - 150, PAGE_WIDTH, 150, BRAND_BLUE);
+  pdf.text("RealEstate MPF", MARGIN, PAGE_HEIGHT - 60, 12, "bold", "#ffffff");
+  pdf.text("LOCATE Score Report", MARGIN, PAGE_HEIGHT - 95, 26, "bold", "#ffffff");
+  pdf.text(`Evaluated ${report.evaluationDate}`, MARGIN, PAGE_HEIGHT - 120, 11, "regular", "#dbeafe");
+
+  y = PAGE_HEIGHT - 200;
+  pdf.text(report.localityName, MARGIN, y, 28, "bold", INK);
+  y -= 26;
+  pdf.text([report.cityName, report.state].filter((part) => part && part !== "Unknown").join(", "), MARGIN, y, 14, "regular", MUTED);
+  y -= 60;
+
+  pdf.text(String(report.summary.totalScore), MARGIN, y, 56, "bold", INK);
+  pdf.text(
+    "/ 1000",
+    MARGIN + measureText(String(report.summary.totalScore), 56, "bold") + 8,
+    y,
+    20,
+    "regular",
+    MUTED,
+  );
+  y -= 34;
+  const gradeText = `${report.summary.grade} - ${report.summary.gradeLabel}`.toUpperCase();
+  pdf.rect(MARGIN, y - 8, measureText(gradeText, 11, "bold") + 24, 26, "#eff6ff");
+  pdf.text(gradeText, MARGIN + 12, y, 11, "bold", "#1d4ed8");
+  y -= 30;
+  if (report.summary.profile) {
+    pdf.text(`Weighted with the ${report.summary.profile} scoring profile`, MARGIN, y, 9, "regular", MUTED);
+    y -= 20;
+  }
+  if (report.provenance?.degraded) {
+    const label = report.provenance.generator === "offline" ? "Offline estimate" : "Partially generated report";
+    paragraph(`${label}: ${report.provenance.reason || "parts of this report use fallback content."}`, { size: 9, font: "bold", color: "#b45309" });
+    y -= 8;
+  }
+  y -= 6;
+  paragraph(report.summary.headlineVerdict, { size: 12, color: "#334155" });
+
+  // LOCATE pie, drawn clockwise from 12 o'clock like the on-screen chart.
+  const pieCx = MARGIN + 110;
+  const pieCy = 190;
+  const pieR = 90;
+  const pieTotal = report.categories.reduce((sum, c) => sum + c.score, 0) || 1;
+  let cumulative = 0;
+  pdf.text("LOCATE CATEGORY MIX", MARGIN, pieCy + pieR + 30, 9, "bold", "#334155");
+  report.categories.forEach((category) => {
+    const start = Math.PI / 2 - 2 * Math.PI * cumulative;
+    cumulative += category.score / pieTotal;
+    const end = Math.PI / 2 - 2 * Math.PI * cumulative;
+    if (category.score > 0) pdf.sector(pieCx, pieCy, pieR, end, start, PIE_COLOR[category.code] || MUTED);
+  });
+  pdf.circle(pieCx, pieCy, pieR * 0.56, "#ffffff");
+  pdf.text("LOCATE", pieCx - measureText("LOCATE", 10, "bold") / 2, pieCy - 4, 10, "bold", MUTED);
+
+  report.categories.forEach((category, index) => {
+    const legendY = pieCy + 70 - index * 26;
+    const legendX = MARGIN + 250;
+    pdf.rect(legendX, legendY - 1, 10, 10, PIE_COLOR[category.code] || MUTED);
+    pdf.text(`${category.code}  ${category.name}`, legendX + 18, legendY, 10, "bold", INK);
+    pdf.text(`${category.score} / ${category.maxScore}`, PAGE_WIDTH - MARGIN - 60, legendY, 10, "regular", "#334155");
+  });
+
+  // Category sections.
+  newPage();
+  heading("LOCATE Categories");
+  report.categories.forEach((category) => {
+    ensureSpace(70);
+    pdf.rect(MARGIN, y - 22, 22, 22, PIE_COLOR[category.code] || MUTED);
+    pdf.text(category.code, MARGIN + 11 - measureText(category.code, 11, "bold") / 2, y - 15, 11, "bold", "#ffffff");
+    pdf.text(category.name, MARGIN + 32, y - 15, 13, "bold", INK);
+    const scoreText = `${category.score} / ${category.maxScore}`;
+    pdf.text(scoreText, PAGE_WIDTH - MARGIN - measureText(scoreText, 11, "bold"), y - 15, 11, "bold", "#334155");
+    y -= 32;
+    const ratio = category.maxScore > 0 ? Math.max(0, Math.min(1, category.score / category.maxScore)) : 0;
+    pdf.rect(MARGIN, y, CONTENT_WIDTH, 5, "#f1f5f9");
+    pdf.rect(MARGIN, y, CONTENT_WIDTH * ratio, 5, INK);
+    y -= 16;
+
+    category.sections.forEach((section) => {
+      subheading(section.source === "default" ? `${section.title} (generic default)` : section.title);
+      paragraph(section.body, section.source === "default" ? { color: MUTED } : undefined);
+      y -= 6;
+    });
+    y -= 12;
+  });
+
+  heading("Nearby Landmarks");
+  if (report.nearbyLandmarks.length > 0) {
+    report.nearbyLandmarks.forEach((landmark) => {
+      ensureSpace(BODY_LEADING + 4);
+      pdf.text(landmark.name, MARGIN, y - BODY_SIZE, BODY_SIZE, "bold", INK);
+      pdf.text(landmark.category, MARGIN + 280, y - BODY_SIZE, BODY_SIZE, "regular", MUTED);
+      const distance = `${landmark.distanceKm.toFixed(1)} km`;
+      pdf.text(distance, PAGE_WIDTH - MARGIN - measureText(distance, BODY_SIZE, "regular"), y - BODY_SIZE, BODY_SIZE, "regular", "#334155");
+      y -= BODY_LEADING + 4;
+    });
+  } else {
+    paragraph("Accurate nearby landmarks are currently unavailable for this exact locality.", { color: MUTED });
+  }
+
+  heading("Interpretation");
+  subheading("Strengths");
+  bullets(report.interpretation.strengths);
+  subheading("WatchOuts");
+  bullets(report.interpretation.watchOuts);
+
+  heading("Recommendations");
+  subheading("Micro-Market Strategy");
+  bullets(report.recommendations.microMarketStrategy);
+  subheading("Developer & Infrastructure");
+  bullets(report.recommendations.developerAndInfra);
+  subheading("Asset Type");
+  bullets(report.recommendations.assetType);
+  subheading("Holding Horizon");
+  paragraph(report.recommendations.holdingHorizon);
+
+  heading("Verdict");
+  paragraph(report.verdictText);
+
+  heading("Disclaimer");
+  paragraph(`Evaluation date: ${report.evaluationDate}.`, { color: MUTED });
+  paragraph(DISCLAIMER, { size: 9, color: MUTED });
+
+  // Footers need the final page count.
+  const total = pdf.pageCount();
+  for (let index = 0; index < total; index += 1) {
+    pdf.usePage(index);
+    pdf.line(MARGIN, FOOTER_Y + 12, PAGE_WIDTH - MARGIN, FOOTER_Y + 12);
+    pdf.text(`RealEstate MPF - LOCATE Report - ${report.localityName}, ${report.cityName}`, MARGIN, FOOTER_Y, 8, "regular", MUTED);
+    const pageLabel = `Page ${index + 1} of ${total}`;
+    pdf.text(pageLabel, PAGE_WIDTH - MARGIN - measureText(pageLabel, 8, "regular"), FOOTER_Y, 8, "regular", MUTED);
+  }
+
+  return pdf.render({
+    title: `LOCATE Score Report - ${report.localityName}, ${report.cityName}`,
+    date: report.evaluationDate,
+  });
+};
+
+export const downloadAnalysisPdf = (report: LocationAnalysis) => {
+  const bytes = buildAnalysisPdf(report);
+  downloadBlob(new Blob([bytes], { type: "application/pdf" }), getAnalysisFileName(report, "pdf"));
+};
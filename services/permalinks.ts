@@ -0,0 +1,74 @@
+import { DEFAULT_PROFILE_ID, getScoringProfile } from "../shared/scoring";
+
+/**
+ * Deep links into the report view:
+ * - `/report/<city>/<locality>` opens the latest report for a locality, running
+ *   an analysis when none is stored yet;
+ * - `/r/<reportId>` opens one saved report version exactly as it was stored.
+ * Either accepts `?profile=<id>` for a non-default scoring profile. Share links,
+ * `/s/<token>`, open a read-only page instead of the tool.
+ */
+export type ReportRoute =
+  | { kind: "locality"; city: string; locality: string; profile: string }
+  | { kind: "report"; reportId: string; profile: string };
+
+/** Spaces become "+" so links stay readable; a literal "+" is still percent-encoded. */
+const encodeSegment = (value: string) => encodeURIComponent(value.trim()).replace(/%20/g, "+");
+
+const decodeSegment = (value: string) => {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, " ")).trim();
+  } catch {
+    return "";
+  }
+};
+
+const getProfileSearch = (profile?: string) =>
+  profile && profile !== DEFAULT_PROFILE_ID ? `?profile=${encodeURIComponent(profile)}` : "";
+
+export const getLocalityReportPath = (city: string, locality: string, profile?: string) =>
+  `/report/${encodeSegment(city)}/${encodeSegment(locality)}${getProfileSearch(profile)}`;
+
+export const getSavedReportPath = (reportId: string, profile?: string) =>
+  `/r/${encodeURIComponent(reportId)}${getProfileSearch(profile)}`;
+
+export const getSharePath = (token: string) => `/s/${encodeURIComponent(token)}`;
+
+/** The token of a `/s/<token>` share link, or null for any other path. */
+export const parseShareToken = (pathname: string): string | null => {
+  const segments = pathname.split("/").filter(Boolean);
+  return segments[0] === "s" && segments.length === 2 ? decodeSegment(segments[1]) || null : null;
+};
+
+export const parseReportRoute = (pathname: string, search = ""): ReportRoute | null => {
+  const requested = new URLSearchParams(search).get("profile");
+  const profile = getScoringProfile(requested)?.id || DEFAULT_PROFILE_ID;
+  const segments = pathname.split("/").filter(Boolean);
+
+  if (segments[0] === "report" && segments.length === 3) {
+    const city = decodeSegment(segments[1]);
+    const locality = decodeSegment(segments[2]);
+    return city && locality ? { kind: "locality", city, locality, profile } : null;
+  }
+  if (segments[0] === "r" && segments.length === 2) {
+    const reportId = decodeSegment(segments[1]);
+    return reportId ? { kind: "report", reportId, profile } : null;
+  }
+  return null;
+};
+
+export const getCurrentReportRoute = (): ReportRoute | null =>
+  typeof window === "undefined" ? null : parseReportRoute(window.location.pathname, window.location.search);
+
+/** Points the address bar at `path`, adding a history entry unless `replace` is set or it is already there. */
+export const showReportPath = (path: string, { replace = false } = {}) => {
+  if (typeof window === "undefined") return;
+  if (`${window.location.pathname}${window.location.search}` === path) return;
+  if (replace) {
+    window.history.replaceState(null, "", path);
+  } else {
+    window.history.pushState(null, "", path);
+  }
+};
+
+export const toAbsoluteUrl = (path: string) => (typeof window === "undefined" ? path : `${window.location.origin}${path}`);
@@ -0,0 +1,94 @@
+import { LocateCategory, LocateSummary, LocationAnalysis } from "../types";
+
+const GRADE_ORDER: LocateSummary["grade"][] = ["D", "C", "C+", "B", "B+", "A", "A+"];
+
+export interface TimelinePoint {
+  reportId: string;
+  evaluationDate: string;
+  totalScore: number;
+  grade: LocateSummary["grade"];
+  categories: Record<LocateCategory["code"], { score: number; maxScore: number }>;
+}
+
+export interface GradeTransition {
+  fromDate: string;
+  toDate: string;
+  from: LocateSummary["grade"];
+  to: LocateSummary["grade"];
+  direction: "up" | "down";
+}
+
+export interface SectionChange {
+  fromDate: string;
+  toDate: string;
+  code: LocateCategory["code"];
+  title: string;
+  before: string;
+  after: string;
+}
+
+export interface ReportTimeline {
+  points: TimelinePoint[];
+  gradeTransitions: GradeTransition[];
+  sectionChanges: SectionChange[];
+}
+
+const toPoint = (report: LocationAnalysis): TimelinePoint => ({
+  reportId: report.reportId || report.evaluationDate,
+  evaluationDate: report.evaluationDate,
+  totalScore: report.summary.totalScore,
+  grade: report.summary.grade,
+  categories: Object.fromEntries(
+    report.categories.map((c) => [c.code, { score: c.score, maxScore: c.maxScore }]),
+  ) as TimelinePoint["categories"],
+});
+
+const getSectionBodies = (report: LocationAnalysis) => {
+  const bodies = new Map<string, { code: LocateCategory["code"]; title: string; body: string }>();
+  report.categories.forEach((category) => {
+    category.sections.forEach((section) => {
+      bodies.set(`${category.code}::${section.title}`, { code: category.code, title: section.title, body: section.body });
+    });
+  });
+  return bodies;
+};
+
+/** Builds a chronological timeline from stored report snapshots of one locality. */
+export const buildTimeline = (snapshots: LocationAnalysis[]): ReportTimeline => {
+  const ordered = [...snapshots].sort((a, b) => a.evaluationDate.localeCompare(b.evaluationDate));
+  const gradeTransitions: GradeTransition[] = [];
+  const sectionChanges: SectionChange[] = [];
+
+  for (let i = 1; i < ordered.length; i += 1) {
+    const previous = ordered[i - 1];
+    const current = ordered[i];
+
+    if (previous.summary.grade !== current.summary.grade) {
+      gradeTransitions.push({
+        fromDate: previous.evaluationDate,
+        toDate: current.evaluationDate,
+        from: previous.summary.grade,
+        to: current.summary.grade,
+        direction:
+          GRADE_ORDER.indexOf(current.summary.grade) > GRADE_ORDER.indexOf(previous.summary.grade) ? "up" : "down",
+      });
+    }
+
+    const before = getSectionBodies(previous);
+    getSectionBodies(current).forEach((section, key) => {
+      const previousBody = before.get(key)?.body ?? "";
+      if (previousBody.trim() !== section.body.trim()) {
+        sectionChanges.push({
+          fromDate: previous.evaluationDate,
+          toDate: current.evaluationDate,
+          code: section.code,
+          title: section.title,
+          before: previousBody,
+          after: section.body,
+        });
+      }
+    });
+  }
+
+  return { points: ordered.map(toPoint), gradeTransitions, sectionChanges };
+};
@@ -0,0 +1,620 @@
+// Offline gazetteer of Indian cities and localities. Coordinates are approximate
+// centroids (about 4 decimal places) meant for map placement and distance
+// estimates, not surveying. City bounding boxes are [south, west, north, east].
+
+import { bboxToPolygon, editDistance, haversineKm, normalizePlaceName } from "./geo.js";
+
+/** @typedef {import("./geo.js").GeoPoint} GeoPoint */
+/** @typedef {import("./geo.js").BoundingBox} BoundingBox */
+/**
+ * @typedef {Object} GazetteerLocality
+ * @property {string} name
+ * @property {string[]} altNames
+ * @property {GeoPoint} centroid
+ */
+/**
+ * @typedef {Object} GazetteerCity
+ * @property {string} id
+ * @property {string} name
+ * @property {string[]} altNames
+ * @property {string} state
+ * @property {GeoPoint} centroid
+ * @property {BoundingBox} [bbox]
+ * @property {GazetteerLocality[]} localities
+ */
+/**
+ * @typedef {Object} GeoResolution
+ * @property {GeoPoint} centroid
+ * @property {GeoPoint[]} [boundingPolygon]
+ * @property {number} confidence 0-1; how sure the lookup is that the centroid is the requested place.
+ * @property {"locality" | "city"} matchLevel "city" when only the city could be placed.
+ * @property {string} matchedName
+ * @property {string} source
+ */
+/**
+ * @typedef {Object} ReversePlace
+ * @property {string} city
+ * @property {string | null} locality Null when the point is in a known city but not near an indexed locality.
+ * @property {number} distanceKm Distance from the point to the matched centroid.
+ * @property {string} source
+ */
+/**
+ * @typedef {Object} PlaceSuggestion
+ * @property {string} name Canonical gazetteer name.
+ * @property {string} [matchedAltName] Alternate name the query matched, e.g. "Bangalore".
+ * @property {string} hint State for cities, city for localities.
+ */
+
+/** @returns {GazetteerLocality} */
+const place = (name, lat, lng, altNames = []) => ({ name, altNames, centroid: { lat, lng } });
+
+/** @type {GazetteerCity[]} */
+export const GAZETTEER = [
+  {
+    id: "delhi",
+    name: "Delhi",
+    altNames: ["New Delhi", "NCT of Delhi"],
+    state: "Delhi",
+    centroid: { lat: 28.6139, lng: 77.209 },
+    bbox: [28.4, 76.84, 28.88, 77.35],
+    localities: [
+      place("Connaught Place", 28.6315, 77.2167, ["CP", "Rajiv Chowk"]),
+      place("Dwarka", 28.5921, 77.046),
+      place("Rohini", 28.7383, 77.0822),
+      place("Saket", 28.5245, 77.2066),
+      place("Vasant Kunj", 28.5293, 77.1535),
+      place("Hauz Khas", 28.5494, 77.2001),
+      place("Karol Bagh", 28.6519, 77.1909),
+      place("Lajpat Nagar", 28.5677, 77.2433),
+      place("Janakpuri", 28.6219, 77.0878),
+      place("Mayur Vihar", 28.6049, 77.2946),
+      place("Greater Kailash", 28.5482, 77.238, ["GK"]),
+      place("Pitampura", 28.698, 77.1384),
+      place("Chanakyapuri", 28.5966, 77.188),
+    ],
+  },
+  {
+    id: "noida",
+    name: "Noida",
+    altNames: ["Gautam Buddh Nagar"],
+    state: "Uttar Pradesh",
+    centroid: { lat: 28.5355, lng: 77.391 },
+    bbox: [28.39, 77.29, 28.64, 77.53],
+    localities: [
+      place("Sector 18", 28.5708, 77.3261),
+      place("Sector 44", 28.554, 77.341),
+      place("Sector 50", 28.571, 77.366),
+      place("Sector 62", 28.623, 77.366),
+      place("Sector 76", 28.566, 77.383),
+      place("Sector 137", 28.509, 77.406),
+      place("Sector 150", 28.433, 77.478),
+      place("Noida Extension", 28.604, 77.43, ["Greater Noida West"]),
+    ],
+  },
+  {
+    id: "gurugram",
+    name: "Gurugram",
+    altNames: ["Gurgaon"],
+    state: "Haryana",
+    centroid: { lat: 28.4595, lng: 77.0266 },
+    bbox: [28.35, 76.9, 28.55, 77.13],
+    localities: [
+      place("DLF Phase 1", 28.473, 77.095),
+      place("Cyber City", 28.495, 77.089, ["DLF Cyber City"]),
+      place("Golf Course Road", 28.444, 77.1),
+      place("Golf Course Extension Road", 28.4, 77.095),
+      place("Sohna Road", 28.41, 77.043),
+      place("Sector 29", 28.468, 77.064),
+      place("Sector 56", 28.424, 77.103),
+      place("MG Road", 28.48, 77.08),
+      place("Dwarka Expressway", 28.49, 76.997),
+    ],
+  },
+  {
+    id: "mumbai",
+    name: "Mumbai",
+    altNames: ["Bombay"],
+    state: "Maharashtra",
+    centroid: { lat: 19.076, lng: 72.8777 },
+    bbox: [18.89, 72.77, 19.27, 72.99],
+    localities: [
+      place("Andheri", 19.1136, 72.8697, ["Andheri East", "Andheri West"]),
+      place("Bandra", 19.0596, 72.8295, ["Bandra West"]),
+      place("Bandra Kurla Complex", 19.066, 72.868, ["BKC"]),
+      place("Powai", 19.1176, 72.906),
+      place("Lower Parel", 18.995, 72.83),
+      place("Worli", 19.0176, 72.817),
+      place("Goregaon", 19.1663, 72.8526),
+      place("Malad", 19.1874, 72.8484),
+      place("Borivali", 19.2307, 72.8567),
+      place("Chembur", 19.0522, 72.9005),
+      place("Colaba", 18.9067, 72.8147),
+    ],
+  },
+  {
+    id: "thane",
+    name: "Thane",
+    altNames: [],
+    state: "Maharashtra",
+    centroid: { lat: 19.2183, lng: 72.9781 },
+    localities: [
+      place("Ghodbunder Road", 19.26, 72.97),
+      place("Majiwada", 19.228, 72.976),
+      place("Kolshet Road", 19.226, 72.993, ["Kolshet"]),
+    ],
+  },
+  {
+    id: "navi-mumbai",
+    name: "Navi Mumbai",
+    altNames: ["New Bombay"],
+    state: "Maharashtra",
+    centroid: { lat: 19.033, lng: 73.0297 },
+    localities: [
+      place("Vashi", 19.0771, 72.9986),
+      place("Kharghar", 19.0473, 73.0699),
+      place("Panvel", 18.9894, 73.1175),
+      place("Nerul", 19.0335, 73.0197),
+      place("Airoli", 19.159, 72.9986),
+      place("Ulwe", 18.97, 73.03),
+    ],
+  },
+  {
+    id: "pune",
+    name: "Pune",
+    altNames: ["Poona"],
+    state: "Maharashtra",
+    centroid: { lat: 18.5204, lng: 73.8567 },
+    bbox: [18.41, 73.74, 18.63, 74.0],
+    localities: [
+      place("Hinjewadi", 18.5913, 73.7389, ["Hinjawadi"]),
+      place("Kharadi", 18.5515, 73.9348),
+      place("Wakad", 18.5987, 73.765),
+      place("Baner", 18.559, 73.7868),
+      place("Viman Nagar", 18.5679, 73.9143),
+      place("Koregaon Park", 18.5362, 73.894),
+      place("Hadapsar", 18.5089, 73.926),
+      place("Magarpatta", 18.5158, 73.9272, ["Magarpatta City"]),
+      place("Aundh", 18.558, 73.8075),
+      place("Wagholi", 18.58, 73.978),
+      place("Kothrud", 18.5074, 73.8077),
+    ],
+  },
+  {
+    id: "bengaluru",
+    name: "Bengaluru",
+    altNames: ["Bangalore"],
+    state: "Karnataka",
+    centroid: { lat: 12.9716, lng: 77.5946 },
+    bbox: [12.83, 77.46, 13.14, 77.78],
+    localities: [
+      place("Whitefield", 12.9698, 77.75),
+      place("Koramangala", 12.9352, 77.6245),
+      place("Indiranagar", 12.9784, 77.6408, ["Indira Nagar"]),
+      place("HSR Layout", 12.9121, 77.6446),
+      place("Electronic City", 12.8452, 77.6602),
+      place("Sarjapur Road", 12.901, 77.686),
+      place("Hebbal", 13.0358, 77.597),
+      place("Marathahalli", 12.9569, 77.7011),
+      place("Jayanagar", 12.925, 77.5938),
+      place("Yelahanka", 13.1007, 77.5963),
+      place("Bellandur", 12.926, 77.6762),
+      place("JP Nagar", 12.9063, 77.5857, ["Jayaprakash Nagar"]),
+    ],
+  },
+  {
+    id: "hyderabad",
+    name: "Hyderabad",
+    altNames: ["Cyberabad"],
+    state: "Telangana",
+    centroid: { lat: 17.385, lng: 78.4867 },
+    bbox: [17.2, 78.25, 17.6, 78.65],
+    localities: [
+      place("Gachibowli", 17.4401, 78.3489),
+      place("HITEC City", 17.4435, 78.3772, ["Hi-Tech City", "Hitech City"]),
+      place("Madhapur", 17.4483, 78.3915),
+      place("Kondapur", 17.4698, 78.3578),
+      place("Banjara Hills", 17.4156, 78.4347),
+      place("Jubilee Hills", 17.4326, 78.4071),
+      place("Kukatpally", 17.4849, 78.4138),
+      place("Financial District", 17.414, 78.342, ["Nanakramguda"]),
+      place("Kokapet", 17.3925, 78.3273),
+      place("Secunderabad", 17.4399, 78.4983),
+      place("Miyapur", 17.4968, 78.358),
+    ],
+  },
+  {
+    id: "chennai",
+    name: "Chennai",
+    altNames: ["Madras"],
+    state: "Tamil Nadu",
+    centroid: { lat: 13.0827, lng: 80.2707 },
+    bbox: [12.83, 80.09, 13.23, 80.33],
+    localities: [
+      place("T. Nagar", 13.0418, 80.2341, ["T Nagar", "Thyagaraya Nagar"]),
+      place("Anna Nagar", 13.085, 80.2101),
+      place("Adyar", 13.0012, 80.2565),
+      place("Velachery", 12.9815, 80.218),
+      place("OMR", 12.94, 80.235, ["Old Mahabalipuram Road", "IT Corridor", "Rajiv Gandhi Salai"]),
+      place("Sholinganallur", 12.901, 80.2279),
+      place("Porur", 13.0382, 80.1565),
+      place("Guindy", 13.0067, 80.2206),
+      place("Tambaram", 12.9249, 80.1),
+      place("Perungudi", 12.9654, 80.2461),
+    ],
+  },
+  {
+    id: "kolkata",
+    name: "Kolkata",
+    altNames: ["Calcutta"],
+    state: "West Bengal",
+    centroid: { lat: 22.5726, lng: 88.3639 },
+    bbox: [22.45, 88.23, 22.65, 88.5],
+    localities: [
+      place("Salt Lake", 22.5867, 88.4171, ["Bidhannagar", "Salt Lake City"]),
+      place("New Town", 22.58, 88.47, ["Rajarhat"]),
+      place("Park Street", 22.553, 88.352),
+      place("Ballygunge", 22.528, 88.365),
+      place("Alipore", 22.5355, 88.33),
+      place("Behala", 22.498, 88.31),
+      place("Tollygunge", 22.498, 88.345),
+    ],
+  },
+  {
+    id: "ahmedabad",
+    name: "Ahmedabad",
+    altNames: ["Amdavad"],
+    state: "Gujarat",
+    centroid: { lat: 23.0225, lng: 72.5714 },
+    bbox: [22.9, 72.45, 23.15, 72.7],
+    localities: [
+      place("SG Highway", 23.03, 72.507, ["Sarkhej-Gandhinagar Highway", "S G Highway"]),
+      place("Prahlad Nagar", 23.012, 72.5108),
+      place("Satellite", 23.0258, 72.5273),
+      place("Bodakdev", 23.04, 72.507),
+      place("Navrangpura", 23.0365, 72.5611),
+      place("Thaltej", 23.0504, 72.5117),
+      place("Gota", 23.103, 72.541),
+      place("Maninagar", 22.9962, 72.603),
+    ],
+  },
+  {
+    id: "surat",
+    name: "Surat",
+    altNames: [],
+    state: "Gujarat",
+    centroid: { lat: 21.1702, lng: 72.8311 },
+    localities: [
+      place("Adajan", 21.193, 72.793),
+      place("Vesu", 21.142, 72.771),
+      place("Piplod", 21.157, 72.775),
+      place("Athwa", 21.178, 72.81),
+    ],
+  },
+  {
+    id: "jaipur",
+    name: "Jaipur",
+    altNames: ["Pink City"],
+    state: "Rajasthan",
+    centroid: { lat: 26.9124, lng: 75.7873 },
+    bbox: [26.77, 75.65, 27.02, 75.92],
+    localities: [
+      place("Malviya Nagar", 26.853, 75.814),
+      place("Vaishali Nagar", 26.911, 75.737),
+      place("Mansarovar", 26.86, 75.76),
+      place("C-Scheme", 26.908, 75.804, ["C Scheme"]),
+      place("Jagatpura", 26.821, 75.859),
+      place("Tonk Road", 26.84, 75.8),
+      place("Ajmer Road", 26.9, 75.72),
+    ],
+  },
+  {
+    id: "chandigarh",
+    name: "Chandigarh",
+    altNames: ["Tricity"],
+    state: "Chandigarh",
+    centroid: { lat: 30.7333, lng: 76.7794 },
+    bbox: [30.66, 76.69, 30.8, 76.85],
+    localities: [
+      place("Sector 17", 30.7398, 76.7827),
+      place("Sector 22", 30.7339, 76.7722),
+      place("Sector 35", 30.7224, 76.758),
+      place("Sector 43", 30.7186, 76.75),
+    ],
+  },
+  {
+    id: "lucknow",
+    name: "Lucknow",
+    altNames: [],
+    state: "Uttar Pradesh",
+    centroid: { lat: 26.8467, lng: 80.9462 },
+    bbox: [26.73, 80.82, 26.97, 81.08],
+    localities: [
+      place("Gomti Nagar", 26.856, 81.005),
+      place("Hazratganj", 26.85, 80.945),
+      place("Aliganj", 26.8935, 80.942),
+      place("Indira Nagar", 26.88, 80.995),
+      place("Sushant Golf City", 26.775, 81.008),
+    ],
+  },
+  {
+    id: "kochi",
+    name: "Kochi",
+    altNames: ["Cochin", "Ernakulam"],
+    state: "Kerala",
+    centroid: { lat: 9.9312, lng: 76.2673 },
+    localities: [
+      place("Kakkanad", 10.0159, 76.3419),
+      place("Edappally", 10.0261, 76.3083, ["Edapally"]),
+      place("Vyttila", 9.969, 76.318),
+      place("Marine Drive", 9.9816, 76.2777),
+      place("Fort Kochi", 9.965, 76.242, ["Fort Cochin"]),
+      place("Kaloor", 9.998, 76.299),
+    ],
+  },
+  {
+    id: "indore",
+    name: "Indore",
+    altNames: [],
+    state: "Madhya Pradesh",
+    centroid: { lat: 22.7196, lng: 75.8577 },
+    localities: [
+      place("Vijay Nagar", 22.7533, 75.8937),
+      place("Palasia", 22.724, 75.887),
+      place("Nipania", 22.761, 75.917),
+      place("Bhawarkuan", 22.693, 75.867),
+    ],
+  },
+  {
+    id: "coimbatore",
+    name: "Coimbatore",
+    altNames: ["Kovai"],
+    state: "Tamil Nadu",
+    centroid: { lat: 11.0168, lng: 76.9558 },
+    localities: [
+      place("RS Puram", 11.0103, 76.9497, ["R S Puram"]),
+      place("Peelamedu", 11.027, 77.015),
+      place("Saravanampatti", 11.079, 76.998),
+      place("Gandhipuram", 11.018, 76.966),
+    ],
+  },
+  {
+    id: "bhubaneswar",
+    name: "Bhubaneswar",
+    altNames: ["Bhubaneshwar"],
+    state: "Odisha",
+    centroid: { lat: 20.2961, lng: 85.8245 },
+    localities: [
+      place("Patia", 20.354, 85.818),
+      place("Saheed Nagar", 20.29, 85.843),
+      place("Chandrasekharpur", 20.328, 85.816),
+      place("Khandagiri", 20.257, 85.78),
+    ],
+  },
+  {
+    id: "visakhapatnam",
+    name: "Visakhapatnam",
+    altNames: ["Vizag"],
+    state: "Andhra Pradesh",
+    centroid: { lat: 17.6868, lng: 83.2185 },
+    localities: [
+      place("MVP Colony", 17.742, 83.335),
+      place("Madhurawada", 17.807, 83.359),
+      place("Gajuwaka", 17.69, 83.21),
+      place("Rushikonda", 17.782, 83.385),
+    ],
+  },
+  {
+    id: "nagpur",
+    name: "Nagpur",
+    altNames: [],
+    state: "Maharashtra",
+    centroid: { lat: 21.1458, lng: 79.0882 },
+    localities: [
+      place("Dharampeth", 21.141, 79.064),
+      place("Sitabuldi", 21.146, 79.083),
+      place("Wardha Road", 21.09, 79.07),
+      place("MIHAN", 21.03, 79.05),
+    ],
+  },
+];
+
+const matchesName = (entry, normalized) =>
+  [entry.name, ...entry.altNames].some((name) => normalizePlaceName(name) === normalized);
+
+/**
+ * Finds a city by name or alternate name (e.g. "Bangalore" for Bengaluru).
+ * @param {string} name
+ * @returns {GazetteerCity | null}
+ */
+export const findCity = (name) => {
+  const normalized = normalizePlaceName(name);
+  if (!normalized) return null;
+  return GAZETTEER.find((city) => matchesName(city, normalized)) || null;
+};
+
+/** Typo budget for fuzzy matches: none for short names, up to 2 for long ones. */
+const getTypoBudget = (text) => (text.length < 5 ? 0 : text.length < 9 ? 1 : 2);
+
+/**
+ * Matches a locality within a city: exact name or alt name first, then names
+ * contained in each other ("Andheri East" -> Andheri), then small typos.
+ * @param {GazetteerCity} city
+ * @param {string} name
+ * @returns {{ locality: GazetteerLocality, confidence: number } | null}
+ */
+export const findLocality = (city, name) => {
+  const normalized = normalizePlaceName(name);
+  if (!normalized) return null;
+
+  const exact = city.localities.find((locality) => matchesName(locality, normalized));
+  if (exact) return { locality: exact, confidence: 0.9 };
+
+  const contained = city.localities.find((locality) =>
+    [locality.name, ...locality.altNames].some((candidate) => {
+      const target = normalizePlaceName(candidate);
+      return target.length >= 4 && (normalized.includes(target) || target.includes(normalized));
+    }),
+  );
+  if (contained) return { locality: contained, confidence: 0.75 };
+
+  let best = null;
+  city.localities.forEach((locality) => {
+    [locality.name, ...locality.altNames].forEach((candidate) => {
+      const target = normalizePlaceName(candidate);
+      const distance = editDistance(normalized, target);
+      if (distance <= getTypoBudget(target) && (!best || distance < best.distance)) {
+        best = { locality, distance };
+      }
+    });
+  });
+  return best ? { locality: best.locality, confidence: 0.6 } : null;
+};
+
+/**
+ * Resolves a city/locality pair to a centroid. Falls back to the city centroid
+ * (low confidence) when the locality is not in the gazetteer.
+ * @param {string} cityName
+ * @param {string} localityName
+ * @returns {GeoResolution | null}
+ */
+export const geocodeFromGazetteer = (cityName, localityName) => {
+  const city = findCity(cityName);
+  if (!city) return null;
+
+  const match = findLocality(city, localityName);
+  if (match) {
+    return {
+      centroid: match.locality.centroid,
+      confidence: match.confidence,
+      matchLevel: "locality",
+      matchedName: `${match.locality.name}, ${city.name}`,
+      source: "gazetteer",
+    };
+  }
+
+  return {
+    centroid: city.centroid,
+    ...(city.bbox ? { boundingPolygon: bboxToPolygon(city.bbox) } : {}),
+    confidence: 0.3,
+    matchLevel: "city",
+    matchedName: city.name,
+    source: "gazetteer",
+  };
+};
+
+const LOCALITY_MATCH_RADIUS_KM = 4;
+const CITY_MATCH_RADIUS_KM = 30;
+
+/**
+ * Finds the nearest indexed locality to a point, or just the city when no
+ * locality centroid is within a few kilometres.
+ * @param {GeoPoint} point
+ * @returns {ReversePlace | null}
+ */
+export const reverseGeocodeFromGazetteer = (point) => {
+  let nearestLocality = null;
+  let nearestCity = null;
+
+  GAZETTEER.forEach((city) => {
+    const cityDistance = haversineKm(point, city.centroid);
+    if (!nearestCity || cityDistance < nearestCity.distanceKm) nearestCity = { city, distanceKm: cityDistance };
+
+    city.localities.forEach((locality) => {
+      const distanceKm = haversineKm(point, locality.centroid);
+      if (!nearestLocality || distanceKm < nearestLocality.distanceKm) nearestLocality = { city, locality, distanceKm };
+    });
+  });
+
+  const round = (km) => Math.round(km * 100) / 100;
+  if (nearestLocality && nearestLocality.distanceKm <= LOCALITY_MATCH_RADIUS_KM) {
+    return {
+      city: nearestLocality.city.name,
+      locality: nearestLocality.locality.name,
+      distanceKm: round(nearestLocality.distanceKm),
+      source: "gazetteer",
+    };
+  }
+  if (nearestCity && nearestCity.distanceKm <= CITY_MATCH_RADIUS_KM) {
+    return { city: nearestCity.city.name, locality: null, distanceKm: round(nearestCity.distanceKm), source: "gazetteer" };
+  }
+  return null;
+};
+
+/**
+ * Ranks how well a query matches a name: whole-name prefix, then word prefix,
+ * then substring, then a typo-tolerant prefix. Lower is better; null is no match.
+ * @param {string} query normalised
+ * @param {string} name
+ * @returns {number | null}
+ */
+const scoreName = (query, name) => {
+  const target = normalizePlaceName(name);
+  if (target.startsWith(query)) return 0;
+  if (target.split(" ").some((word) => word.startsWith(query))) return 1;
+  if (target.includes(query)) return 2;
+  // Compare against prefixes one character either side so dropped or doubled letters still match.
+  const distance = Math.min(
+    ...[query.length - 1, query.length, query.length + 1].map((length) => editDistance(query, target.slice(0, length))),
+  );
+  return distance <= getTypoBudget(query) ? 3 + distance : null;
+};
+
+/**
+ * @template {{ name: string, altNames: string[] }} T
+ * @param {T[]} entries
+ * @param {string} query
+ * @param {number} limit
+ * @returns {{ entry: T, matchedAltName?: string }[]}
+ */
+const rankEntries = (entries, query, limit) => {
+  const normalized = normalizePlaceName(query);
+  if (!normalized) return entries.slice(0, limit).map((entry) => ({ entry }));
+
+  return entries
+    .map((entry) => {
+      let best = null;
+      [entry.name, ...entry.altNames].forEach((name, index) => {
+        const score = scoreName(normalized, name);
+        if (score !== null && (!best || score < best.score)) {
+          best = { score, matchedAltName: index > 0 ? name : undefined };
+        }
+      });
+      return best ? { entry, ...best } : null;
+    })
+    .filter(Boolean)
+    .sort((a, b) => a.score - b.score || a.entry.name.localeCompare(b.entry.name))
+    .slice(0, limit)
+    .map(({ entry, matchedAltName }) => ({ entry, matchedAltName }));
+};
+
+/**
+ * City typeahead over names and alternate names.
+ * @param {string} query
+ * @param {number} [limit]
+ * @returns {PlaceSuggestion[]}
+ */
+export const suggestCities = (query, limit = 8) =>
+  rankEntries(GAZETTEER, query, limit).map(({ entry, matchedAltName }) => ({
+    name: entry.name,
+    ...(matchedAltName ? { matchedAltName } : {}),
+    hint: entry.state,
+  }));
+
+/**
+ * Locality typeahead scoped to one city; empty when the city is not indexed.
+ * An empty query lists the city's localities alphabetically.
+ * @param {string} cityName
+ * @param {string} query
+ * @param {number} [limit]
+ * @returns {PlaceSuggestion[]}
+ */
+export const suggestLocalities = (cityName, query, limit = 8) => {
+  const city = findCity(cityName);
+  if (!city) return [];
+  const localities = [...city.localities].sort((a, b) => a.name.localeCompare(b.name));
+  return rankEntries(localities, query, limit).map(({ entry, matchedAltName }) => ({
+    name: entry.name,
+    ...(matchedAltName ? { matchedAltName } : {}),
+    hint: city.name,
+  }));
+};
@@ -0,0 +1,84 @@
+// Coordinate and place-name helpers shared by the API server and the web client.
+
+/** @typedef {{ lat: number, lng: number }} GeoPoint */
+/** @typedef {[south: number, west: number, north: number, east: number]} BoundingBox */
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance in kilometres.
+ * @param {GeoPoint} a
+ * @param {GeoPoint} b
+ * @returns {number}
+ */
+export const haversineKm = (a, b) => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+/**
+ * @param {unknown} value
+ * @returns {value is GeoPoint}
+ */
+export const isGeoPoint = (value) =>
+  !!value &&
+  typeof value === "object" &&
+  Number.isFinite(/** @type {GeoPoint} */ (value).lat) &&
+  Number.isFinite(/** @type {GeoPoint} */ (value).lng) &&
+  Math.abs(/** @type {GeoPoint} */ (value).lat) <= 90 &&
+  Math.abs(/** @type {GeoPoint} */ (value).lng) <= 180;
+
+/**
+ * Closed ring (first point repeated last), clockwise from the south-west corner.
+ * @param {BoundingBox} bbox
+ * @returns {GeoPoint[]}
+ */
+export const bboxToPolygon = ([south, west, north, east]) => [
+  { lat: south, lng: west },
+  { lat: north, lng: west },
+  { lat: north, lng: east },
+  { lat: south, lng: east },
+  { lat: south, lng: west },
+];
+
+/**
+ * Lower-cases, strips accents and punctuation, and collapses whitespace so
+ * "Sector-62", "sector 62" and "SECTOR 62." compare equal.
+ * @param {string | undefined | null} value
+ * @returns {string}
+ */
+export const normalizePlaceName = (value) =>
+  String(value || "")
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+/**
+ * Levenshtein distance, used for typo-tolerant place-name matching.
+ * @param {string} a
+ * @param {string} b
+ * @returns {number}
+ */
+export const editDistance = (a, b) => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
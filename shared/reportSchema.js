@@ -0,0 +1,241 @@
+import { arrayOf, boolean, describe, integer, nullable, number, object, oneOf, optional, string } from "./schema.js";
+
+/**
+ * Shapes of reports and the other API payloads. `types.ts` derives its types
+ * from these, the server serves them in its OpenAPI document, and the client
+ * checks replies and cached reports against them. The `Model*` schemas at the
+ * end describe raw model replies and become Gemini response schemas.
+ */
+
+export const EvidenceConfidenceSchema = describe(oneOf("high", "medium", "low"), "How far an analyst can rely on a score or section.");
+
+export const EvidenceSourceSchema = describe(
+  oneOf("model", "default", "local-data"),
+  'Where a score came from; "default" marks generic placeholder text used when no evidence was available.',
+);
+
+export const ScoreDriverSchema = object({
+  label: string(),
+  points: number({ description: "Rough signed contribution in category points, relative to half the category maximum." }),
+});
+
+export const LocateSectionSchema = object({
+  title: string(),
+  body: string(),
+  // Evidence fields are absent on reports saved before they were introduced.
+  confidence: optional(EvidenceConfidenceSchema),
+  source: optional(EvidenceSourceSchema),
+  drivers: optional(arrayOf(ScoreDriverSchema)),
+});
+
+export const CategoryCodeSchema = oneOf("L", "O", "C", "A", "T", "E");
+
+export const LocateCategorySchema = object({
+  code: CategoryCodeSchema,
+  name: string(),
+  maxScore: number(),
+  score: number(),
+  sections: arrayOf(LocateSectionSchema),
+  confidence: optional(EvidenceConfidenceSchema),
+  source: optional(EvidenceSourceSchema),
+  drivers: optional(describe(arrayOf(ScoreDriverSchema), "Strongest drivers across the category's sections.")),
+});
+
+export const GradeSchema = oneOf("A+", "A", "B+", "B", "C+", "C", "D");
+
+export const GradeLabelSchema = oneOf("Excellent", "Very Strong", "Strong", "Stable", "Moderate", "Weak");
+
+export const LocateSummarySchema = object({
+  totalScore: number(),
+  maxTotalScore: oneOf(1000),
+  grade: GradeSchema,
+  gradeLabel: GradeLabelSchema,
+  headlineVerdict: string(),
+  // Name and id of the scoring profile the scores and grade were weighted with.
+  profile: optional(string()),
+  profileId: optional(string()),
+});
+
+export const GeoPointSchema = object({ lat: number(), lng: number() });
+
+export const LocationGeoSchema = object({
+  centroid: GeoPointSchema,
+  boundingPolygon: optional(describe(arrayOf(GeoPointSchema), "Closed ring around the matched area, when the geocoder knows one.")),
+  confidence: number({ minimum: 0, maximum: 1, description: "How sure the geocoder is that `centroid` is the requested place." }),
+  matchLevel: describe(oneOf("locality", "city"), '"city" when the locality could not be placed and the city centroid is used.'),
+  matchedName: string(),
+  source: string(),
+});
+
+export const ReversePlaceSchema = object({
+  city: string(),
+  locality: describe(nullable(string()), "Null when the point is inside a known city but not near an indexed locality."),
+  distanceKm: number(),
+  source: string(),
+});
+
+export const LandmarkCategorySchema = oneOf(
+  "Mall",
+  "University",
+  "Metro Station",
+  "Hospital",
+  "Airport",
+  "School",
+  "Park",
+  "Railway Station",
+  "IT Park",
+);
+
+export const NearbyLandmarkSchema = object({
+  name: string(),
+  category: LandmarkCategorySchema,
+  distanceKm: number(),
+  coordinates: optional(GeoPointSchema),
+});
+
+export const ReportProvenanceSchema = object({
+  generator: describe(oneOf("model", "offline"), "Engine that produced the scores: the model, or the offline scoring engine."),
+  degraded: boolean({ description: "True for anything short of a complete model report. Degraded reports are never cached on the client." }),
+  reason: describe(nullable(string()), "Why the report is degraded, e.g. the model error that forced offline scoring."),
+  defaultSections: integer({ description: "Sections that fell back to generic placeholder text." }),
+});
+
+export const InterpretationSchema = object({ strengths: arrayOf(string()), watchOuts: arrayOf(string()) });
+
+export const RecommendationsSchema = object({
+  microMarketStrategy: arrayOf(string()),
+  developerAndInfra: arrayOf(string()),
+  assetType: arrayOf(string()),
+  holdingHorizon: string(),
+});
+
+export const LocationAnalysisSchema = object({
+  id: integer(),
+  reportId: optional(string()),
+  cityId: string(),
+  cityName: string(),
+  altName: string(),
+  localityName: string(),
+  state: string(),
+  focus: string(),
+  evaluationDate: string(),
+  categories: arrayOf(LocateCategorySchema),
+  summary: LocateSummarySchema,
+  // Absent on reports saved before provenance was recorded.
+  provenance: optional(ReportProvenanceSchema),
+  nearbyLandmarks: arrayOf(NearbyLandmarkSchema),
+  interpretation: InterpretationSchema,
+  recommendations: RecommendationsSchema,
+  verdictText: string(),
+  geo: optional(nullable(LocationGeoSchema)),
+});
+
+export const ReportSummarySchema = object({
+  reportId: string(),
+  city: string(),
+  locality: string(),
+  evaluationDate: string(),
+  savedAt: string({ format: "date-time" }),
+  totalScore: number(),
+  grade: GradeSchema,
+});
+
+export const ShareLinkSchema = describe(
+  object({
+    shareId: string(),
+    reportId: string(),
+    profileId: string(),
+    token: string(),
+    createdAt: string({ format: "date-time" }),
+    expiresAt: string({ format: "date-time" }),
+    revokedAt: nullable(string({ format: "date-time" })),
+    views: integer(),
+    lastViewedAt: nullable(string({ format: "date-time" })),
+  }),
+  "A read-only share link for a saved report.",
+);
+
+export const SharedReportSchema = object({
+  report: LocationAnalysisSchema,
+  share: object({ expiresAt: string({ format: "date-time" }), views: integer() }),
+});
+
+export const ValidationResultSchema = object({ isValid: boolean(), reason: string() });
+
+export const AmbiguityResultSchema = object({ isAmbiguous: boolean(), suggestedCities: arrayOf(string()) });
+
+export const AnalysisStageSchema = oneOf("queued", "validation", "ambiguity", "report", "landmarks", "done");
+
+export const BatchRowStatusSchema = oneOf("pending", "done", "invalid_input", "needs_clarification", "failed", "cancelled");
+
+export const BatchRowSchema = object({
+  row: integer({ description: "1-based line number in the uploaded file." }),
+  city: string(),
+  locality: string(),
+  status: BatchRowStatusSchema,
+  jobId: nullable(string()),
+  error: nullable(string()),
+  suggestedCities: arrayOf(string()),
+  result: nullable(
+    object({
+      reportId: optional(string()),
+      totalScore: number(),
+      maxTotalScore: number(),
+      grade: GradeSchema,
+      gradeLabel: GradeLabelSchema,
+      categories: arrayOf(object({ code: CategoryCodeSchema, score: number(), maxScore: number() })),
+    }),
+  ),
+});
+
+export const BatchStatusSchema = object({
+  batchId: string(),
+  state: oneOf("running", "done", "cancelled"),
+  createdAt: integer({ description: "Epoch milliseconds." }),
+  finishedAt: nullable(integer()),
+  total: integer(),
+  completed: integer(),
+  profile: string(),
+  rows: arrayOf(BatchRowSchema),
+});
+
+// Raw model replies. Categorical fields are plain strings here because the
+// server normalizes whatever the model returns.
+
+const ModelLandmarkSchema = object({
+  name: string(),
+  category: string(),
+  distanceKm: number(),
+  latitude: optional(number()),
+  longitude: optional(number()),
+});
+
+export const ModelReportSchema = object({
+  cityName: string(),
+  altName: string(),
+  state: string(),
+  focus: string(),
+  categories: arrayOf(
+    object({
+      code: string(),
+      name: optional(string()),
+      score: number(),
+      confidence: optional(string()),
+      sections: arrayOf(
+        object({
+          title: string(),
+          body: string(),
+          confidence: optional(string()),
+          drivers: optional(arrayOf(ScoreDriverSchema)),
+        }),
+      ),
+    }),
+  ),
+  headlineVerdict: string(),
+  nearbyLandmarks: arrayOf(ModelLandmarkSchema),
+  interpretation: InterpretationSchema,
+  recommendations: RecommendationsSchema,
+  verdictText: string(),
+});
+
+export const ModelLandmarkVerificationSchema = object({ nearbyLandmarks: arrayOf(ModelLandmarkSchema) });
@@ -0,0 +1,48 @@
+/** Types for `schema.js`: each builder returns a `Schema<T>` whose `T` is the TypeScript type of matching values. */
+
+export interface Schema<T> {
+  readonly kind: string;
+  readonly description?: string;
+  /** Type-level only; never set at runtime. */
+  readonly _type?: T;
+}
+
+export interface OptionalSchema<T> extends Schema<T> {
+  readonly kind: "optional";
+  readonly optional: true;
+}
+
+/** The TypeScript type a schema describes. */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+type OptionalKeys<P extends Shape> = { [K in keyof P]: P[K] extends OptionalSchema<unknown> ? K : never }[keyof P];
+type RequiredKeys<P extends Shape> = Exclude<keyof P, OptionalKeys<P>>;
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+type InferShape<P extends Shape> = Simplify<
+  { [K in RequiredKeys<P>]: Infer<P[K]> } & { [K in OptionalKeys<P>]?: Infer<P[K]> }
+>;
+
+interface NumberOptions {
+  minimum?: number;
+  maximum?: number;
+  description?: string;
+}
+
+export function string(options?: { format?: string; description?: string }): Schema<string>;
+export function number(options?: NumberOptions): Schema<number>;
+export function integer(options?: NumberOptions): Schema<number>;
+export function boolean(options?: { description?: string }): Schema<boolean>;
+export function oneOf<const V extends readonly (string | number)[]>(...values: V): Schema<V[number]>;
+export function arrayOf<T>(items: Schema<T>): Schema<T[]>;
+export function record<T>(values: Schema<T>): Schema<Record<string, T>>;
+export function object<P extends Shape>(properties: P): Schema<InferShape<P>>;
+export function nullable<T>(inner: Schema<T>): Schema<T | null>;
+export function optional<T>(inner: Schema<T>): OptionalSchema<T>;
+export function describe<S extends Schema<unknown>>(schema: S, description: string): S;
+
+/** Returns `value` typed by `schema`, or throws an error named "SchemaError" that names the first mismatch. */
+export function parse<T>(schema: Schema<T>, value: unknown, options?: { label?: string }): T;
+
+export function toJsonSchema(schema: Schema<unknown>, options?: { refs?: Map<Schema<unknown>, string> }): Record<string, unknown>;
+export function toGeminiSchema(schema: Schema<unknown>): Record<string, unknown>;
@@ -0,0 +1,175 @@
+/**
+ * A small schema language shared by the server and the client. One definition
+ * gives the TypeScript type (`Infer`, see `schema.d.ts`), a runtime check
+ * (`parse`), an OpenAPI schema (`toJsonSchema`) and a Gemini response schema
+ * (`toGeminiSchema`). Objects accept unknown extra properties, so older
+ * clients keep working when fields are added.
+ */
+
+export const string = ({ format, description } = {}) => ({ kind: "string", format, description });
+export const number = ({ minimum, maximum, description } = {}) => ({ kind: "number", minimum, maximum, description });
+export const integer = ({ minimum, maximum, description } = {}) => ({ kind: "integer", minimum, maximum, description });
+export const boolean = ({ description } = {}) => ({ kind: "boolean", description });
+export const oneOf = (...values) => ({ kind: "enum", values });
+export const arrayOf = (items) => ({ kind: "array", items });
+export const record = (values) => ({ kind: "record", values });
+export const object = (properties) => ({ kind: "object", properties });
+export const nullable = (inner) => ({ kind: "nullable", inner });
+/** Marks an object property that may be missing. */
+export const optional = (inner) => ({ kind: "optional", inner, optional: true });
+export const describe = (schema, description) => ({ ...schema, description });
+
+const describeValue = (value) => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  if (typeof value === "number" && !Number.isFinite(value)) return String(value);
+  return typeof value === "object" ? "an object" : `${typeof value} ${JSON.stringify(value).slice(0, 40)}`;
+};
+
+/** The first problem found, as `[path, message]`, or null when `value` matches. */
+const findIssue = (schema, value, path) => {
+  switch (schema.kind) {
+    case "optional":
+      return value === undefined ? null : findIssue(schema.inner, value, path);
+    case "nullable":
+      return value === null ? null : findIssue(schema.inner, value, path);
+    case "string":
+      return typeof value === "string" ? null : [path, `expected a string, got ${describeValue(value)}`];
+    case "number":
+    case "integer": {
+      if (typeof value !== "number" || !Number.isFinite(value)) return [path, `expected a number, got ${describeValue(value)}`];
+      if (schema.kind === "integer" && !Number.isInteger(value)) return [path, `expected an integer, got ${value}`];
+      if (schema.minimum !== undefined && value < schema.minimum) return [path, `expected at least ${schema.minimum}, got ${value}`];
+      if (schema.maximum !== undefined && value > schema.maximum) return [path, `expected at most ${schema.maximum}, got ${value}`];
+      return null;
+    }
+    case "boolean":
+      return typeof value === "boolean" ? null : [path, `expected true or false, got ${describeValue(value)}`];
+    case "enum":
+      return schema.values.includes(value)
+        ? null
+        : [path, `expected one of ${schema.values.map((option) => JSON.stringify(option)).join(", ")}, got ${describeValue(value)}`];
+    case "array": {
+      if (!Array.isArray(value)) return [path, `expected an array, got ${describeValue(value)}`];
+      for (let index = 0; index < value.length; index += 1) {
+        const issue = findIssue(schema.items, value[index], `${path}[${index}]`);
+        if (issue) return issue;
+      }
+      return null;
+    }
+    case "record":
+    case "object": {
+      if (!value || typeof value !== "object" || Array.isArray(value)) return [path, `expected an object, got ${describeValue(value)}`];
+      const entries =
+        schema.kind === "record"
+          ? Object.entries(value).map(([name, item]) => [name, schema.values, item])
+          : Object.entries(schema.properties).map(([name, property]) => [name, property, value[name]]);
+      for (const [name, property, item] of entries) {
+        if (item === undefined && property.kind !== "optional") return [`${path}.${name}`, "is missing"];
+        const issue = findIssue(property, item, `${path}.${name}`);
+        if (issue) return issue;
+      }
+      return null;
+    }
+    default:
+      throw new Error(`Unknown schema kind "${schema.kind}".`);
+  }
+};
+
+/**
+ * Returns `value` unchanged when it matches `schema`, and otherwise throws an
+ * error naming the first mismatch, e.g. `Report is malformed: summary.grade
+ * expected one of ...`. The error has `name` "SchemaError" and the `path`.
+ */
+export const parse = (schema, value, { label = "Value" } = {}) => {
+  const issue = findIssue(schema, value, "");
+  if (!issue) return value;
+
+  const [path, message] = issue;
+  const where = path.replace(/^\./, "");
+  throw Object.assign(new Error(`${label} is malformed: ${where ? `${where} ` : ""}${message}.`), {
+    name: "SchemaError",
+    path: where,
+  });
+};
+
+/** Copies `schema.description` onto its converted form; a `$ref` cannot carry siblings, so it gets wrapped. */
+const withDescription = (schema, output) => {
+  if (!schema.description) return output;
+  return output.$ref ? { allOf: [output], description: schema.description } : { ...output, description: schema.description };
+};
+
+/**
+ * OpenAPI 3.0 schema. Nodes found in `refs` (schema -> component name) below
+ * the root become `$ref`s to that component.
+ */
+export const toJsonSchema = (schema, { refs = new Map() } = {}) => {
+  const convert = (node, isRoot = false) => {
+    if (!isRoot && refs.has(node)) return { $ref: `#/components/schemas/${refs.get(node)}` };
+
+    switch (node.kind) {
+      case "optional":
+        return withDescription(node, convert(node.inner));
+      case "nullable": {
+        const inner = convert(node.inner);
+        return withDescription(node, inner.$ref ? { allOf: [inner], nullable: true } : { ...inner, nullable: true });
+      }
+      case "string":
+        return withDescription(node, { type: "string", ...(node.format ? { format: node.format } : {}) });
+      case "number":
+      case "integer":
+        return withDescription(node, {
+          type: node.kind,
+          ...(node.minimum !== undefined ? { minimum: node.minimum } : {}),
+          ...(node.maximum !== undefined ? { maximum: node.maximum } : {}),
+        });
+      case "boolean":
+        return withDescription(node, { type: "boolean" });
+      case "enum":
+        return withDescription(node, { type: typeof node.values[0] === "number" ? "number" : "string", enum: node.values });
+      case "array":
+        return withDescription(node, { type: "array", items: convert(node.items) });
+      case "record":
+        return withDescription(node, { type: "object", additionalProperties: convert(node.values) });
+      case "object": {
+        const entries = Object.entries(node.properties);
+        return withDescription(node, {
+          type: "object",
+          properties: Object.fromEntries(entries.map(([name, property]) => [name, convert(property)])),
+          required: entries.filter(([, property]) => property.kind !== "optional").map(([name]) => name),
+        });
+      }
+      default:
+        throw new Error(`Unknown schema kind "${node.kind}".`);
+    }
+  };
+  return convert(schema, true);
+};
+
+const GEMINI_TYPES = { string: "STRING", number: "NUMBER", integer: "INTEGER", boolean: "BOOLEAN", array: "ARRAY", object: "OBJECT" };
+
+/** Gemini `responseSchema`, using the upper-case `Type` names of `@google/genai`. */
+export const toGeminiSchema = (schema) => {
+  switch (schema.kind) {
+    case "optional":
+      return withDescription(schema, toGeminiSchema(schema.inner));
+    case "nullable":
+      return withDescription(schema, { ...toGeminiSchema(schema.inner), nullable: true });
+    case "enum":
+      return withDescription(schema, { type: GEMINI_TYPES.string, format: "enum", enum: schema.values.map(String) });
+    case "array":
+      return withDescription(schema, { type: GEMINI_TYPES.array, items: toGeminiSchema(schema.items) });
+    case "object": {
+      const entries = Object.entries(schema.properties);
+      return withDescription(schema, {
+        type: GEMINI_TYPES.object,
+        properties: Object.fromEntries(entries.map(([name, property]) => [name, toGeminiSchema(property)])),
+        required: entries.filter(([, property]) => property.kind !== "optional").map(([name]) => name),
+      });
+    }
+    case "record":
+      throw new Error("Gemini response schemas cannot describe maps.");
+    default:
+      return withDescription(schema, { type: GEMINI_TYPES[schema.kind] });
+  }
+};
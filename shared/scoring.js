@@ -0,0 +1,180 @@
+// Scoring rules shared by the API server and the web client. Plain ES module so
+// Node can import it directly; the TypeScript side reads types from the JSDoc.
+
+/** @typedef {"L" | "O" | "C" | "A" | "T" | "E"} CategoryCode */
+/** @typedef {"A+" | "A" | "B+" | "B" | "C+" | "C" | "D"} Grade */
+/** @typedef {"Excellent" | "Very Strong" | "Strong" | "Stable" | "Moderate" | "Weak"} GradeLabel */
+/** @typedef {{ minScore: number, grade: Grade, gradeLabel: GradeLabel }} GradeBand */
+/**
+ * @typedef {Object} ScoringProfile
+ * @property {string} id
+ * @property {string} name
+ * @property {string} description
+ * @property {Record<CategoryCode, number>} weights Category max scores; normalised to a 1000 total.
+ * @property {GradeBand[]} gradeBands Highest band first; the last band must start at 0.
+ */
+
+/** @type {CategoryCode[]} */
+export const CATEGORY_CODES = ["L", "O", "C", "A", "T", "E"];
+
+export const MAX_TOTAL_SCORE = 1000;
+
+/** @type {Record<CategoryCode, number>} */
+export const DEFAULT_CATEGORY_MAX = { L: 200, O: 150, C: 150, A: 150, T: 150, E: 200 };
+
+/** @type {GradeBand[]} */
+export const DEFAULT_GRADE_BANDS = [
+  { minScore: 900, grade: "A+", gradeLabel: "Excellent" },
+  { minScore: 850, grade: "A", gradeLabel: "Excellent" },
+  { minScore: 800, grade: "B+", gradeLabel: "Very Strong" },
+  { minScore: 750, grade: "B", gradeLabel: "Strong" },
+  { minScore: 700, grade: "C+", gradeLabel: "Stable" },
+  { minScore: 650, grade: "C", gradeLabel: "Moderate" },
+  { minScore: 0, grade: "D", gradeLabel: "Weak" },
+];
+
+/** @type {ScoringProfile[]} */
+export const SCORING_PROFILES = [
+  {
+    id: "balanced",
+    name: "Balanced",
+    description: "Default LOCATE weighting across economy, projects, connectivity, amenities, trends and supply.",
+    weights: DEFAULT_CATEGORY_MAX,
+    gradeBands: DEFAULT_GRADE_BANDS,
+  },
+  {
+    id: "end-user",
+    name: "End-user",
+    description: "Weights daily livability: commute, amenities and social infrastructure over market cycles.",
+    weights: { L: 120, O: 100, C: 220, A: 260, T: 100, E: 200 },
+    gradeBands: [
+      { minScore: 880, grade: "A+", gradeLabel: "Excellent" },
+      { minScore: 830, grade: "A", gradeLabel: "Excellent" },
+      { minScore: 780, grade: "B+", gradeLabel: "Very Strong" },
+      { minScore: 730, grade: "B", gradeLabel: "Strong" },
+      { minScore: 680, grade: "C+", gradeLabel: "Stable" },
+      { minScore: 630, grade: "C", gradeLabel: "Moderate" },
+      { minScore: 0, grade: "D", gradeLabel: "Weak" },
+    ],
+  },
+  {
+    id: "yield-investor",
+    name: "Yield investor",
+    description: "Weights jobs-led tenant demand, price and rent trends, and supply absorption.",
+    weights: { L: 220, O: 80, C: 180, A: 120, T: 200, E: 200 },
+    gradeBands: [
+      { minScore: 900, grade: "A+", gradeLabel: "Excellent" },
+      { minScore: 850, grade: "A", gradeLabel: "Excellent" },
+      { minScore: 790, grade: "B+", gradeLabel: "Very Strong" },
+      { minScore: 740, grade: "B", gradeLabel: "Strong" },
+      { minScore: 690, grade: "C+", gradeLabel: "Stable" },
+      { minScore: 640, grade: "C", gradeLabel: "Moderate" },
+      { minScore: 0, grade: "D", gradeLabel: "Weak" },
+    ],
+  },
+  {
+    id: "developer",
+    name: "Developer",
+    description: "Weights upcoming catalysts and the supply-demand gap for land parcel and launch decisions.",
+    weights: { L: 180, O: 250, C: 150, A: 80, T: 140, E: 200 },
+    gradeBands: [
+      { minScore: 920, grade: "A+", gradeLabel: "Excellent" },
+      { minScore: 870, grade: "A", gradeLabel: "Excellent" },
+      { minScore: 820, grade: "B+", gradeLabel: "Very Strong" },
+      { minScore: 760, grade: "B", gradeLabel: "Strong" },
+      { minScore: 700, grade: "C+", gradeLabel: "Stable" },
+      { minScore: 640, grade: "C", gradeLabel: "Moderate" },
+      { minScore: 0, grade: "D", gradeLabel: "Weak" },
+    ],
+  },
+];
+
+export const DEFAULT_PROFILE_ID = "balanced";
+
+/**
+ * @param {string | undefined | null} id
+ * @returns {ScoringProfile | null}
+ */
+export const getScoringProfile = (id) =>
+  SCORING_PROFILES.find((profile) => profile.id === (id || DEFAULT_PROFILE_ID)) || null;
+
+/**
+ * @param {number} totalScore
+ * @param {GradeBand[]} [gradeBands]
+ * @returns {{ grade: Grade, gradeLabel: GradeLabel }}
+ */
+export const buildGrade = (totalScore, gradeBands = DEFAULT_GRADE_BANDS) => {
+  const band = gradeBands.find((item) => totalScore >= item.minScore) || gradeBands[gradeBands.length - 1];
+  return { grade: band.grade, gradeLabel: band.gradeLabel };
+};
+
+/**
+ * Scales weights so the category maxima add up to exactly 1000, handing rounding
+ * leftovers to the largest fractional remainders first.
+ * @param {Record<CategoryCode, number>} weights
+ * @returns {Record<CategoryCode, number>}
+ */
+export const normalizeWeights = (weights) => {
+  const sum = CATEGORY_CODES.reduce((acc, code) => acc + Math.max(0, Number(weights[code]) || 0), 0);
+  if (sum <= 0) return { ...DEFAULT_CATEGORY_MAX };
+
+  const raw = CATEGORY_CODES.map((code) => ({
+    code,
+    exact: (Math.max(0, Number(weights[code]) || 0) / sum) * MAX_TOTAL_SCORE,
+  }));
+  const result = /** @type {Record<CategoryCode, number>} */ ({});
+  raw.forEach((item) => {
+    result[item.code] = Math.floor(item.exact);
+  });
+
+  let remainder = MAX_TOTAL_SCORE - CATEGORY_CODES.reduce((acc, code) => acc + result[code], 0);
+  [...raw]
+    .sort((a, b) => b.exact - Math.floor(b.exact) - (a.exact - Math.floor(a.exact)))
+    .forEach((item) => {
+      if (remainder > 0) {
+        result[item.code] += 1;
+        remainder -= 1;
+      }
+    });
+  return result;
+};
+
+/**
+ * @param {{ label: string, points: number }[] | undefined} drivers
+ * @param {number} factor
+ */
+const scaleDrivers = (drivers, factor) => drivers?.map((driver) => ({ ...driver, points: Math.round(driver.points * factor) }));
+
+/**
+ * Re-weights a report's category scores into a profile's category maxima and
+ * regrades the 1000-point total with the profile's bands. Each category keeps
+ * its score-to-max ratio, and driver points are rescaled with it.
+ * @template {{ categories: { code: CategoryCode, score: number, maxScore: number, drivers?: { label: string, points: number }[], sections?: { drivers?: { label: string, points: number }[] }[] }[], summary: { totalScore: number } }} T
+ * @param {T} report
+ * @param {ScoringProfile} profile
+ * @returns {T}
+ */
+export const applyScoringProfile = (report, profile) => {
+  const maxima = normalizeWeights(profile.weights);
+  const categories = report.categories.map((category) => {
+    const ratio = category.maxScore > 0 ? Math.max(0, Math.min(1, category.score / category.maxScore)) : 0;
+    const maxScore = maxima[category.code] ?? category.maxScore;
+    const factor = category.maxScore > 0 ? maxScore / category.maxScore : 0;
+    const scaled = { ...category, maxScore, score: Math.round(ratio * maxScore) };
+    if (category.drivers) scaled.drivers = scaleDrivers(category.drivers, factor);
+    if (category.sections) {
+      scaled.sections = category.sections.map((section) =>
+        section.drivers ? { ...section, drivers: scaleDrivers(section.drivers, factor) } : section,
+      );
+    }
+    return scaled;
+  });
+  const totalScore = categories.reduce((sum, item) => sum + item.score, 0);
+  const { grade, gradeLabel } = buildGrade(totalScore, profile.gradeBands);
+
+  return {
+    ...report,
+    categories,
+    summary: { ...report.summary, totalScore, grade, gradeLabel, profile: profile.name, profileId: profile.id },
+  };
+};
@@ -1,23 +1,37 @@
-export interface LocateSection {
-  title: string;
-  body: string;
-}
+import type { Infer } from "./shared/schema";
+import type {
+  AmbiguityResultSchema,
+  AnalysisStageSchema,
+  BatchRowSchema,
+  BatchRowStatusSchema,
+  BatchStatusSchema,
+  EvidenceConfidenceSchema,
+  EvidenceSourceSchema,
+  GeoPointSchema,
+  LocateCategorySchema,
+  LocateSectionSchema,
+  LocateSummarySchema,
+  LocationAnalysisSchema,
+  LocationGeoSchema,
+  NearbyLandmarkSchema,
+  ReportProvenanceSchema,
+  ReportSummarySchema,
+  ReversePlaceSchema,
+  ScoreDriverSchema,
+  SharedReportSchema,
+  ShareLinkSchema,
+  ValidationResultSchema,
+} from "./shared/reportSchema";
 
-export interface LocateCategory {
-  code: "L" | "O" | "C" | "A" | "T" | "E";
-  name: string;
-  maxScore: number;
-  score: number;
-  sections: LocateSection[];
-}
+// Types of data that crosses the API come from the schemas in `shared/reportSchema.js`,
+// which also check it at runtime; field notes live there.
 
-export interface LocateSummary {
-  totalScore: number;
-  maxTotalScore: 1000;
-  grade: "A+" | "A" | "B+" | "B" | "C+" | "C" | "D";
-  gradeLabel: "Excellent" | "Very Strong" | "Strong" | "Stable" | "Moderate" | "Weak";
-  headlineVerdict: string;
-}
+export type EvidenceConfidence = Infer<typeof EvidenceConfidenceSchema>;
+export type EvidenceSource = Infer<typeof EvidenceSourceSchema>;
+export type ScoreDriver = Infer<typeof ScoreDriverSchema>;
+export type LocateSection = Infer<typeof LocateSectionSchema>;
+export type LocateCategory = Infer<typeof LocateCategorySchema>;
+export type LocateSummary = Infer<typeof LocateSummarySchema>;
 
 export interface InfrastructureItem {
   name: string;
@@ -25,46 +39,57 @@ export interface InfrastructureItem {
   distance: number;
 }
 
-export interface NearbyLandmark {
-  name: string;
-  category:
-    | "Mall"
-    | "University"
-    | "Metro Station"
-    | "Hospital"
-    | "Airport"
-    | "School"
-    | "Park"
-    | "Railway Station"
-    | "IT Park";
-  distanceKm: number;
-}
+export type GeoPoint = Infer<typeof GeoPointSchema>;
+export type LocationGeo = Infer<typeof LocationGeoSchema>;
+export type ReversePlace = Infer<typeof ReversePlaceSchema>;
+export type NearbyLandmark = Infer<typeof NearbyLandmarkSchema>;
+export type ReportProvenance = Infer<typeof ReportProvenanceSchema>;
+export type LocationAnalysis = Infer<typeof LocationAnalysisSchema>;
+export type ReportSummary = Infer<typeof ReportSummarySchema>;
+export type ShareLink = Infer<typeof ShareLinkSchema>;
+export type SharedReport = Infer<typeof SharedReportSchema>;
+export type ValidationResult = Infer<typeof ValidationResultSchema>;
+export type AmbiguityResult = Infer<typeof AmbiguityResultSchema>;
 
-export interface LocationAnalysis {
-  id: number;
-  cityId: string;
+/** A report held in the browser's analysis cache. */
+export interface CachedAnalysisEntry {
+  /** Cache key, `city::locality::profile` in lower case. */
+  key: string;
+  /** The query the report was requested with; used to re-run it. */
+  city: string;
+  locality: string;
+  profile: string;
   cityName: string;
-  altName: string;
   localityName: string;
-  state: string;
-  focus: string;
-  evaluationDate: string;
-  categories: LocateCategory[];
-  summary: LocateSummary;
-  nearbyLandmarks: NearbyLandmark[];
-  interpretation: {
-    strengths: string[];
-    watchOuts: string[];
-  };
-  recommendations: {
-    microMarketStrategy: string[];
-    developerAndInfra: string[];
-    assetType: string[];
-    holdingHorizon: string;
-  };
-  verdictText: string;
+  totalScore: number;
+  grade: LocateSummary["grade"];
+  /** Epoch milliseconds. */
+  savedAt: number;
+  lastUsedAt: number;
+  sizeBytes: number;
+}
+
+export interface AnalysisCacheStats {
+  entries: number;
+  sizeBytes: number;
+  maxBytes: number;
+  ttlDays: number;
+  /** Cached validation and city-match lookups. */
+  lookupEntries: number;
+  oldestSavedAt: number | null;
 }
 
+export type AnalysisStage = Infer<typeof AnalysisStageSchema>;
+
+export interface AnalysisProgress {
+  requestId: string;
+  stage: AnalysisStage;
+}
+
+export type BatchRowStatus = Infer<typeof BatchRowStatusSchema>;
+export type BatchRow = Infer<typeof BatchRowSchema>;
+export type BatchStatus = Infer<typeof BatchStatusSchema>;
+
 export enum AppSection {
   Home = "home",
   Score = "score",